@@ -0,0 +1,33 @@
+// WEBHOOK ECHO - Local stand-in for notification channels: logs every payload it receives
+// Usage: npm run webhook:echo [-- <port>]   then add http://localhost:<port>/ as a channel
+
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2]) || 8787;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    console.log('\n' + new Date().toISOString() + ' ' + req.method + ' ' + req.url + ' (' + (req.headers['content-type'] || 'no content type') + ')');
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    res.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/json' }).end('{"ok":true}');
+  });
+}).listen(port, () => {
+  console.log('Webhook echo listening on http://localhost:' + port + '/');
+});
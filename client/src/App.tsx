@@ -1,31 +1,144 @@
-import { useState } from 'react';
-import { checkPRDeploymentStatus } from './services/adoService';
-import { PRDeploymentResult, InclusionStatus, FE_ENVIRONMENTS, EnvironmentDeploymentStatus } from './types';
+import { useEffect, useRef, useState } from 'react';
+import {
+  checkBuildDeployments,
+  checkCommitDeploymentStatus,
+  checkPRDeploymentStatus,
+  checkWorkItemDeploymentStatus,
+  parseLookupInput,
+  parsePRUrl,
+} from './services/adoService';
+import { DEFAULT_TRAINS, findTrainsForRepository, loadTrainDefinitions } from './services/trainService';
+import { clearCache } from './services/cacheService';
+import { describeError, getStatusColor, getStatusIcon } from './utils/status';
+import { describeEta, formatShortDate } from './utils/format';
+import BatchView from './components/BatchView';
+import HistoryView from './components/HistoryView';
+import CompareView from './components/CompareView';
+import DeploymentMatrix from './components/DeploymentMatrix';
+import StageDetails from './components/StageDetails';
+import WatchPanel from './components/WatchPanel';
+import { useWatchList } from './hooks/useWatchList';
+import { useCredentials } from './hooks/useCredentials';
+import CredentialManager from './components/CredentialManager';
+import PreMergePanel from './components/PreMergePanel';
+import EquivalentChanges from './components/EquivalentChanges';
+import CollectionsView from './components/CollectionsView';
+import ReportExport from './components/ReportExport';
+import { decodeSnapshot, downloadSnapshot, lookupShareLink, pendingShareAction, prShareLink, readShareRequest, snapshotLink } from './services/shareService';
+import { PRDeploymentResult, EnvironmentDeploymentStatus, LookupResult, TrainDefinition } from './types';
 import './App.css';
 
 function App() {
+  const [trains, setTrains] = useState<TrainDefinition[]>(DEFAULT_TRAINS);
+  const [trainId, setTrainId] = useState('');
   const [prUrl, setPrUrl] = useState('');
-  const [pat, setPat] = useState(() => {
-    return localStorage.getItem('ado_pat') || '';
-  });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<PRDeploymentResult | null>(null);
+  const [lookupResult, setLookupResult] = useState<LookupResult | null>(null);
+  const [selectedStage, setSelectedStage] = useState<string | null>(null);
+  const [mode, setMode] = useState<'single' | 'batch' | 'collections' | 'history' | 'compare'>('single');
+  const [cacheCleared, setCacheCleared] = useState(false);
+  const [trainsLoaded, setTrainsLoaded] = useState(false);
+  const [shareRequest] = useState(() => readShareRequest());
+  const [snapshotAt, setSnapshotAt] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const credentials = useCredentials();
+  const pat = credentials.token;
+  const watchList = useWatchList(pat, trains);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  useEffect(() => {
+    loadTrainDefinitions().then(loaded => {
+      setTrains(loaded);
+      setTrainsLoaded(true);
+    });
+  }, []);
+
+  // Opened from a shared link: show the snapshot, or run the lookup with the viewer's own PAT once there is one
+  const shareHandled = useRef(false);
+  useEffect(() => {
+    const action = pendingShareAction(shareRequest, { trainsLoaded, token: pat, handled: shareHandled.current });
+    if (!action) return;
+    shareHandled.current = true;
+    if (action.kind === 'snapshot') {
+      decodeSnapshot(action.snapshot)
+        .then(snapshot => {
+          setPrUrl(snapshot.result.prInfo.url);
+          setResult(snapshot.result);
+          setSnapshotAt(snapshot.createdAt);
+        })
+        .catch(err => setError(err.message));
+    } else {
+      setPrUrl(action.lookup);
+      runLookup(action.lookup);
+    }
+  }, [trainsLoaded, pat]);
+
+  const copyToClipboard = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(what);
+      setTimeout(() => setCopied(null), 2000);
+    } catch {
+      setError('Could not copy to the clipboard.');
+    }
+  };
+
+  // What the input currently parses as (PR URL, commit, work item, build) - null while incomplete
+  const lookup = (() => {
+    try {
+      return parseLookupInput(prUrl);
+    } catch {
+      return null;
+    }
+  })();
+
+  // Trains for the PR's repository; commit and build lookups can target any train
+  const candidateTrains = lookup?.kind === 'pr'
+    ? findTrainsForRepository(trains, parsePRUrl(lookup.prUrl).repository)
+    : lookup?.kind === 'commit' || lookup?.kind === 'build' ? trains : [];
+  const selectedTrain = candidateTrains.find(t => t.id === trainId) || candidateTrains[0] || trains[0];
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!prUrl.trim() || !pat.trim()) return;
+    runLookup(prUrl);
+  };
+
+  // Open a watched PR in the single view
+  const openWatchedPR = (url: string) => {
+    setMode('single');
+    setPrUrl(url);
+    runLookup(url);
+  };
+
+  const runLookup = async (value: string) => {
+    if (!value.trim() || !pat.trim()) return;
 
     setLoading(true);
     setError(null);
     setResult(null);
-
-    // Save PAT for convenience
-    localStorage.setItem('ado_pat', pat);
+    setLookupResult(null);
+    setSnapshotAt(null);
 
     try {
-      const data = await checkPRDeploymentStatus(prUrl.trim(), pat.trim());
-      setResult(data);
+      const input = parseLookupInput(value);
+      const options = { trains, trainId: selectedTrain?.id };
+      switch (input.kind) {
+        case 'pr':
+          setResult(await checkPRDeploymentStatus(input.prUrl, pat.trim(), options));
+          break;
+        case 'commit':
+          setLookupResult(await checkCommitDeploymentStatus(input.commitId, pat.trim(), options));
+          break;
+        case 'build':
+          setLookupResult(await checkBuildDeployments(input, pat.trim(), options));
+          break;
+        case 'work-item':
+          setLookupResult(await checkWorkItemDeploymentStatus(input.workItemId, pat.trim(), { trains }));
+          break;
+      }
+      // Keep the address shareable
+      window.history.replaceState(null, '', input.kind === 'pr' ? prShareLink(input.prUrl) : lookupShareLink(value));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
@@ -33,34 +146,35 @@ function App() {
     }
   };
 
-  const getStatusColor = (status: InclusionStatus): string => {
-    switch (status) {
-      case 'included': return 'status-included';
-      case 'not-included': return 'status-not-included';
-      case 'in-progress': return 'status-in-progress';
-      case 'no-builds': return 'status-no-builds';
-      case 'error': return 'status-error';
-      default: return '';
-    }
-  };
-
-  const getStatusIcon = (status: InclusionStatus): string => {
-    switch (status) {
-      case 'included': return '✓';
-      case 'not-included': return '○';
-      case 'in-progress': return '◐';
-      case 'no-builds': return '?';
-      case 'error': return '✗';
-      default: return '';
-    }
-  };
+  // Statuses shown in the pipeline: a merged PR (projected dates for an active one), a commit or a build lookup
+  const pipelineStatuses = result
+    ? (result.supportedRepo && (result.prInfo.mergeCommitId || result.preMerge) ? result.environments : null)
+    : lookupResult && lookupResult.kind !== 'work-item' ? lookupResult.environments : null;
 
   // Get environment status from result or return null for pending state
-  const getEnvironmentData = (envId: number): EnvironmentDeploymentStatus | null => {
-    if (!result || !result.supportedRepo || !result.prInfo.mergeCommitId) return null;
-    return result.environments.find(e => e.environment.id === envId) || null;
+  const getEnvironmentData = (envName: string): EnvironmentDeploymentStatus | null => {
+    if (!pipelineStatuses) return null;
+    return pipelineStatuses.find(e => e.environment.name === envName) || null;
   };
 
+  // Elapsed times in the stage details count from the merge, the commit or the build
+  const origin = result?.prInfo.closedDate
+    ? { label: 'merge', time: result.prInfo.closedDate }
+    : lookupResult?.kind === 'commit'
+      ? { label: 'commit', time: lookupResult.commit.author.date }
+      : lookupResult?.kind === 'build' && lookupResult.build.finishTime
+        ? { label: 'build', time: lookupResult.build.finishTime }
+        : undefined;
+
+  // Selected train's ladder until a result tells us which train the lookup was checked against
+  const resultEnvironments = result?.environments
+    || (lookupResult && lookupResult.kind !== 'work-item' ? lookupResult.environments : []);
+  const pipelineEnvironments = resultEnvironments.length > 0
+    ? resultEnvironments.map(e => e.environment)
+    : selectedTrain?.environments || [];
+  const selectedEnvironment = pipelineEnvironments.find(env => env.name === selectedStage);
+  const pipelineTrain = result?.train || (lookupResult && lookupResult.kind !== 'work-item' ? lookupResult.train : selectedTrain);
+
   return (
     <div className="app">
       <header className="header">
@@ -74,152 +188,381 @@ function App() {
       </header>
 
       <div className="main-container">
-        <form onSubmit={handleSubmit} className="input-form">
-          <div className="input-group">
-            <label htmlFor="prUrl">PR URL</label>
-            <input
-              id="prUrl"
-              type="text"
-              value={prUrl}
-              onChange={(e) => setPrUrl(e.target.value)}
-              placeholder="https://dev.azure.com/powerbi/PowerBIClients/_git/PowerBIClients/pullrequest/123456"
-              disabled={loading}
-            />
-          </div>
-          <div className="input-group">
-            <label htmlFor="pat">
-              PAT Token
-              <a 
-                href="https://dev.azure.com/powerbi/_usersSettings/tokens" 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="pat-help-link"
-                title="Create a new PAT token"
-              >
-                Create PAT →
-              </a>
-            </label>
-            <p className="pat-hint">
-              Required scopes: <strong>Code</strong> (Read), <strong>Build</strong> (Read), <strong>Environment</strong> (Read & manage)
-            </p>
-            <input
-              id="pat"
-              type="password"
-              value={pat}
-              onChange={(e) => setPat(e.target.value)}
-              placeholder="Your Azure DevOps Personal Access Token"
-              disabled={loading}
-            />
-          </div>
-          <button type="submit" disabled={loading || !prUrl.trim() || !pat.trim()}>
-            {loading ? 'Checking...' : 'Check Status'}
+        <CredentialManager credentials={credentials} />
+
+        <div className="mode-tabs">
+          <button type="button" className={mode === 'single' ? 'active' : ''} onClick={() => setMode('single')}>
+            Single PR
+          </button>
+          <button type="button" className={mode === 'batch' ? 'active' : ''} onClick={() => setMode('batch')}>
+            Batch
+          </button>
+          <button type="button" className={mode === 'collections' ? 'active' : ''} onClick={() => setMode('collections')}>
+            Collections
           </button>
-        </form>
+          <button type="button" className={mode === 'history' ? 'active' : ''} onClick={() => setMode('history')}>
+            Environments
+          </button>
+          <button type="button" className={mode === 'compare' ? 'active' : ''} onClick={() => setMode('compare')}>
+            Compare
+          </button>
+        </div>
 
-        {error && (
-          <div className="error-box">
-            <span>⚠️</span> {error}
-          </div>
-        )}
+        <WatchPanel
+          watches={watchList.watches}
+          events={watchList.events}
+          sinks={watchList.sinks}
+          onOpen={openWatchedPR}
+          onRemove={watchList.removeWatch}
+          onToggleSubscription={watchList.toggleSubscription}
+          onCheckNow={watchList.checkNow}
+          onClearEvents={watchList.clearEvents}
+          onAddSink={watchList.addSink}
+          onUpdateSink={watchList.updateSink}
+          onRemoveSink={watchList.removeSink}
+        />
 
-        {result && (
-          <>
-          {/* PR Info */}
-          <div className="pr-info">
-            <h2>{result.prInfo.title}</h2>
-            <div className="pr-meta">
-              <span>PR #{result.prInfo.id}</span>
-              <span>•</span>
-              <span>{result.prInfo.repository.name}</span>
-              <span>•</span>
-              <span className={`pr-status pr-status-${result.prInfo.status}`}>
-                {result.prInfo.status}
-              </span>
+        {mode === 'batch' ? (
+          <BatchView pat={pat} trains={trains} />
+        ) : mode === 'collections' ? (
+          <CollectionsView pat={pat} trains={trains} />
+        ) : mode === 'history' ? (
+          <HistoryView pat={pat} trains={trains} />
+        ) : mode === 'compare' ? (
+          <CompareView pat={pat} trains={trains} />
+        ) : (
+        <>
+          <form onSubmit={handleSubmit} className="input-form">
+            <div className="input-group">
+              <label htmlFor="prUrl">PR URL, commit, work item or build</label>
+              <input
+                id="prUrl"
+                type="text"
+                value={prUrl}
+                onChange={(e) => setPrUrl(e.target.value)}
+                placeholder="https://dev.azure.com/powerbi/PowerBIClients/_git/PowerBIClients/pullrequest/123456"
+                disabled={loading}
+              />
             </div>
-            {result.prInfo.mergeCommitId && (
-              <div className="merge-commit">
-                Merge commit: <code>{result.prInfo.mergeCommitId.substring(0, 8)}</code>
+            {candidateTrains.length > 1 && (
+              <div className="input-group">
+                <label htmlFor="train">Train</label>
+                <select
+                  id="train"
+                  value={selectedTrain?.id}
+                  onChange={(e) => setTrainId(e.target.value)}
+                  disabled={loading}
+                >
+                  {candidateTrains.map((train) => (
+                    <option key={train.id} value={train.id}>{train.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {!pat.trim() && (
+              <p className="pat-hint">Add a PAT or sign in above to run checks.</p>
+            )}
+            {prUrl.trim() && !lookup && (
+              <p className="pat-hint">
+                Enter a PR URL, a commit SHA, a work item (<strong>AB#123</strong>) or a build (<strong>20241019.1</strong> / <strong>build:123</strong>)
+              </p>
+            )}
+            <button type="submit" disabled={loading || !lookup || !pat.trim()}>
+              {loading ? 'Checking...' : 'Check Status'}
+            </button>
+          </form>
+
+          {error && (
+            <div className="error-box">
+              <span>⚠️</span> {error}
+            </div>
+          )}
+
+          {result && (
+            <>
+            {/* PR Info */}
+            <div className="pr-info">
+              <h2>{result.prInfo.title}</h2>
+              <div className="pr-meta">
+                <span>PR #{result.prInfo.id}</span>
+                <span>•</span>
+                <span>{result.prInfo.repository.name}</span>
+                <span>•</span>
+                <span className={`pr-status pr-status-${result.prInfo.status}`}>
+                  {result.prInfo.status}
+                </span>
+                {result.supportedRepo && (
+                  watchList.watches.some(w => w.prUrl === result.prInfo.url) ? (
+                    <span className="watch-toggle watching">★ Watching</span>
+                  ) : (
+                    <button
+                      type="button"
+                      className="link-button watch-toggle"
+                      onClick={() => watchList.addWatch(result.prInfo.url, result, result.train?.id)}
+                      title="Re-check in the background and notify when a stage gets the PR or a deployment fails"
+                    >
+                      ☆ Watch
+                    </button>
+                  )
+                )}
+              </div>
+              <div className="share-actions">
+                <button type="button" className="link-button" onClick={() => copyToClipboard(prShareLink(result.prInfo.url), 'link')}>
+                  🔗 Copy link
+                </button>
+                <button
+                  type="button"
+                  className="link-button"
+                  onClick={async () => copyToClipboard(await snapshotLink(result), 'snapshot link')}
+                  title="Read-only copy of this result - opens without a PAT"
+                >
+                  📸 Copy snapshot link
+                </button>
+                <button type="button" className="link-button" onClick={() => downloadSnapshot(result)}>
+                  Download snapshot
+                </button>
+                {copied && <span className="share-copied">Copied {copied}</span>}
+              </div>
+              <ReportExport results={[result]} fileName={'pr-' + result.prInfo.id + '-deployment'} />
+              {result.prInfo.mergeCommitId && (
+                <div className="merge-commit">
+                  Merge commit: <code>{result.prInfo.mergeCommitId.substring(0, 8)}</code>
+                  {result.apiCalls !== undefined && (
+                    <span className="api-calls" title="ADO calls made for this check (cache hits excluded)">
+                      {result.apiCalls} ADO calls
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Read-only snapshot */}
+            {snapshotAt && (
+              <div className="info-box">
+                <span>📸</span>
+                <p>
+                  Snapshot taken {new Date(snapshotAt).toLocaleString()} - read-only, no PAT needed.{' '}
+                  {pat.trim() && (
+                    <button type="button" className="link-button" onClick={() => runLookup(result.prInfo.url)}>
+                      Check live status
+                    </button>
+                  )}
+                </p>
               </div>
             )}
-          </div>
-
-          {/* BE Not Supported Warning */}
-          {!result.supportedRepo && (
-            <div className="warning-box">
-              <span className="warning-icon">🚧</span>
-              <div>
-                <strong>BE Repository Not Supported</strong>
+
+            {/* Repository Not Supported Warning */}
+            {!result.supportedRepo && (
+              <div className="warning-box">
+                <span className="warning-icon">🚧</span>
+                <div>
+                  <strong>Repository Not Supported</strong>
+                  <p>{result.unsupportedMessage}</p>
+                </div>
+              </div>
+            )}
+
+            {/* PR Not Merged Warning */}
+            {result.supportedRepo && result.unsupportedMessage && (
+              <div className="info-box">
+                <span>ℹ️</span>
                 <p>{result.unsupportedMessage}</p>
               </div>
+            )}
+
+            {/* Reverts and cherry-picks of the PR */}
+            <EquivalentChanges cherryPicks={result.cherryPicks} revert={result.revert} />
+
+            {/* Active PR: reviews, policies and the cut it would catch */}
+            {result.preMerge && <PreMergePanel preMerge={result.preMerge} />}
+          </>
+        )}
+
+          {/* Commit Info */}
+          {lookupResult?.kind === 'commit' && (
+            <div className="pr-info">
+              <h2>{lookupResult.commit.comment.split('\n')[0]}</h2>
+              <div className="pr-meta">
+                <span>Commit</span>
+                <span>•</span>
+                <span>{lookupResult.commit.author.name}</span>
+                <span>•</span>
+                <span>{new Date(lookupResult.commit.author.date).toLocaleString()}</span>
+              </div>
+              <div className="merge-commit">
+                Commit: <code>{lookupResult.commit.commitId.substring(0, 8)}</code>
+                {lookupResult.apiCalls !== undefined && (
+                  <span className="api-calls" title="ADO calls made for this check (cache hits excluded)">
+                    {lookupResult.apiCalls} ADO calls
+                  </span>
+                )}
+              </div>
             </div>
           )}
 
-          {/* PR Not Merged Warning */}
-          {result.supportedRepo && result.unsupportedMessage && (
-            <div className="info-box">
-              <span>ℹ️</span>
-              <p>{result.unsupportedMessage}</p>
+          {/* Build Info */}
+          {lookupResult?.kind === 'build' && (
+            <div className="pr-info">
+              <h2>
+                {lookupResult.build.url
+                  ? <a href={lookupResult.build.url} target="_blank" rel="noopener noreferrer">Build {lookupResult.build.buildNumber}</a>
+                  : 'Build ' + lookupResult.build.buildNumber}
+              </h2>
+              <div className="pr-meta">
+                <span>#{lookupResult.build.id}</span>
+                <span>•</span>
+                <span>{lookupResult.train.project}</span>
+                {lookupResult.build.finishTime && (
+                  <>
+                    <span>•</span>
+                    <span>Finished {new Date(lookupResult.build.finishTime).toLocaleString()}</span>
+                  </>
+                )}
+              </div>
+              <div className="merge-commit">
+                Source version: <code>{lookupResult.build.sourceVersion.substring(0, 8)}</code>
+              </div>
             </div>
           )}
-        </>
-      )}
 
-        {/* Environment Status - Always visible */}
-        <div className="environments">
-          <h3>Environment Status</h3>
-          
-          {/* Train Animation during loading */}
-          {loading && (
-            <div className="train-loading">
-              <div className="train-track-line"></div>
-              <div className="train-moving">🚂</div>
+          {/* Work Item Info + linked PRs */}
+          {lookupResult?.kind === 'work-item' && (
+            <div className="pr-info">
+              <h2>
+                {lookupResult.workItem.url
+                  ? <a href={lookupResult.workItem.url} target="_blank" rel="noopener noreferrer">{lookupResult.workItem.title}</a>
+                  : lookupResult.workItem.title}
+              </h2>
+              <div className="pr-meta">
+                <span>{lookupResult.workItem.type} #{lookupResult.workItem.id}</span>
+                <span>•</span>
+                <span>{lookupResult.pullRequests.length} linked PR{lookupResult.pullRequests.length === 1 ? '' : 's'}</span>
+              </div>
+              {lookupResult.pullRequests.length > 0 && <DeploymentMatrix entries={lookupResult.pullRequests} />}
             </div>
           )}
+
+          {/* Environment Status - Always visible (except work items, shown as a matrix above) */}
+          {lookupResult?.kind !== 'work-item' && (
+            <div className="environments">
+              <h3>Environment Status{pipelineTrain && ' - ' + pipelineTrain.name}</h3>
+          
+              {/* Train Animation during loading */}
+              {loading && (
+                <div className="train-loading">
+                  <div className="train-track-line"></div>
+                  <div className="train-moving">🚂</div>
+                </div>
+              )}
           
-          <div className={`env-pipeline ${loading ? 'loading' : ''}`}>
-            {FE_ENVIRONMENTS.map((env) => {
-              const envData = getEnvironmentData(env.id);
-              const hasData = envData !== null;
+              <div className={`env-pipeline ${loading ? 'loading' : ''}`}>
+                {pipelineEnvironments.map((env) => {
+                  const envData = getEnvironmentData(env.name);
+                  const hasData = envData !== null;
+                  const includedRegions = envData?.regions?.filter(r => r.status === 'included').length || 0;
               
-              return (
-                <div key={env.id} className="env-stage">
-                  <div className={`env-node ${hasData ? getStatusColor(envData.status) : 'status-pending'}`}>
-                    <span className="env-icon">
-                      {hasData ? getStatusIcon(envData.status) : '○'}
-                    </span>
-                  </div>
-                  <div className="env-info">
-                    <div className="env-name">{env.displayName}</div>
-                  </div>
+                  return (
+                    <div key={env.name} className={`env-stage ${selectedStage === env.name ? 'selected' : ''}`}>
+                      <div
+                        className={`env-node ${hasData ? getStatusColor(envData.status) : 'status-pending'}`}
+                        onClick={() => setSelectedStage(selectedStage === env.name ? null : env.name)}
+                        title={envData?.error ? describeError(envData.error) : 'Show details'}
+                      >
+                        <span className="env-icon">
+                          {hasData ? getStatusIcon(envData.status) : '○'}
+                        </span>
+                      </div>
+                      <div className="env-info">
+                        <div className="env-name">{env.displayName}</div>
+                        {envData?.status === 'included' && envData.buildTimestamp && (
+                          <div className="env-date">
+                            <span className="env-time">{formatShortDate(envData.buildTimestamp)}</span>
+                          </div>
+                        )}
+                        {envData?.via && (
+                          <div className="env-date" title={'Cherry-picked onto ' + envData.via.branch}>
+                            <span className="env-via">via cherry-pick</span>
+                          </div>
+                        )}
+                        {envData?.reverted && (
+                          <div className="env-date">
+                            <span className="env-left">revert live</span>
+                          </div>
+                        )}
+                        {envData?.status === 'rolled-back' && envData.rollback && (
+                          <div className="env-date" title={'Rolled back to ' + envData.rollback.buildNumber}>
+                            <span className="env-left">left {formatShortDate(envData.rollback.finishTime || envData.rollback.startTime)}</span>
+                          </div>
+                        )}
+                        {envData?.eta && (
+                          <div className="env-date" title={describeEta(envData.eta)}>
+                            <span className={`env-expected confidence-${envData.eta.confidence}`}>
+                              ~{formatShortDate(envData.eta.expected)}
+                            </span>
+                          </div>
+                        )}
+                        {env.regions && (
+                          <div className="env-date">
+                            <span className="env-regions">
+                              {hasData ? includedRegions + '/' + env.regions.length : env.regions.length} regions
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Details for the selected stage */}
+              {selectedEnvironment && (
+                <StageDetails
+                  environment={selectedEnvironment}
+                  data={getEnvironmentData(selectedEnvironment.name)}
+                  origin={origin}
+                  onClose={() => setSelectedStage(null)}
+                />
+              )}
+
+              {/* Legend */}
+              <div className="legend">
+                <div className="legend-item">
+                  <span className="legend-dot included"></span>
+                  <span>Included</span>
                 </div>
-              );
-            })}
-          </div>
-
-          {/* Legend */}
-          <div className="legend">
-            <div className="legend-item">
-              <span className="legend-dot included"></span>
-              <span>Included</span>
-            </div>
-            <div className="legend-item">
-              <span className="legend-dot not-included"></span>
-              <span>Not yet</span>
-            </div>
-            <div className="legend-item">
-              <span className="legend-dot in-progress"></span>
-              <span>In progress</span>
-            </div>
-            <div className="legend-item">
-              <span className="legend-dot pending"></span>
-              <span>Pending</span>
+                <div className="legend-item">
+                  <span className="legend-dot partially-deployed"></span>
+                  <span>Some regions</span>
+                </div>
+                <div className="legend-item">
+                  <span className="legend-dot rolled-back"></span>
+                  <span>Rolled back</span>
+                </div>
+                <div className="legend-item">
+                  <span className="legend-dot not-included"></span>
+                  <span>Not yet</span>
+                </div>
+                <div className="legend-item">
+                  <span className="legend-dot in-progress"></span>
+                  <span>In progress</span>
+                </div>
+                <div className="legend-item">
+                  <span className="legend-dot pending"></span>
+                  <span>Pending</span>
+                </div>
+                <div className="legend-item">
+                  <span className="env-expected">~date</span>
+                  <span>Predicted arrival (hover for range)</span>
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
+          )}
+        </>
+        )}
       </div>
 
       <footer className="footer">
-        <p>Fabric TRAIN TRACKER - Fabric PowerBIClients Deployment Status</p>
+        <p>Fabric TRAIN TRACKER - Fabric PowerBIClients (FE) &amp; powerbi (BE) Deployment Status</p>
         <p>
           <a
             href="https://aka.ms/pbitrains"
@@ -229,6 +572,16 @@ function App() {
             View Train Schedule Status →
           </a>
         </p>
+        <p>
+          <button
+            type="button"
+            className="link-button"
+            onClick={() => clearCache().then(() => setCacheCleared(true))}
+            title="Builds and merge bases are cached indefinitely, deployment records for 2 minutes"
+          >
+            {cacheCleared ? 'Cache cleared ✓' : 'Clear cached ADO data'}
+          </button>
+        </p>
       </footer>
     </div>
   );
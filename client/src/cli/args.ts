@@ -0,0 +1,101 @@
+// CLI ARGUMENTS - Commands, positional PR URLs and --flags for train-tracker
+
+import type { ExportFormat } from '../core';
+
+export type CliCommand = 'check' | 'watch' | 'wait' | 'help';
+
+export type CheckFormat = 'text' | ExportFormat;
+
+const CHECK_FORMATS: CheckFormat[] = ['text', 'markdown', 'csv', 'json'];
+
+export interface CliArgs {
+  command: CliCommand;
+  prUrls: string[];      // PR URLs (wait also takes a commit SHA)
+  json: boolean;
+  format: CheckFormat;   // check - text for people, or an exported report (json is the versioned report schema)
+  target?: string;       // Stage or region that counts as "reached" (default: the last stage)
+  train?: string;        // Preferred train id when several match the repository
+  org?: string;          // Organization for commit lookups (PR URLs carry their own)
+  trains?: string;       // Train definitions file or URL (default: the built-in trains)
+  interval?: number;     // watch / wait - seconds between polls (watch otherwise backs off)
+  timeout?: number;      // watch / wait - give up after this many minutes
+  cache: boolean;
+}
+
+export const USAGE = [
+  'Usage:',
+  '  train-tracker check <pr-url> [options]',
+  '  train-tracker watch <pr-url>... [options]',
+  '  train-tracker wait <pr-url|commit> --target <stage> [options]',
+  '',
+  'Options:',
+  '  --target <stage>     Stage or region to wait for (default: the last stage)',
+  '  --train <id>         Train to check against when several match the repository',
+  '  --trains <file|url>  Train definitions (same format as trains.json)',
+  '  --org <name>         wait <commit>: Azure DevOps organization (default: powerbi)',
+  '  --json               Print the check result (check), events (watch) or gate result (wait) as JSON',
+  '  --format <format>    check: text (default), markdown, csv or json (the versioned report schema)',
+  '  --interval <sec>     watch / wait: seconds between polls (wait: 60, watch backs off by default)',
+  '  --timeout <min>      watch / wait: stop waiting after this many minutes (wait: 60)',
+  '  --no-cache           Skip the on-disk lookup cache',
+  '',
+  'The PAT is read from ADO_PAT (or AZURE_DEVOPS_EXT_PAT).',
+  'Exit codes: 0 target reached, 1 not reached yet, 2 error.',
+].join('\n');
+
+const VALUE_FLAGS = ['target', 'train', 'trains', 'org', 'interval', 'timeout', 'format'];
+
+function toNumber(flag: string, value: string): number {
+  const number = Number(value);
+  if (isNaN(number) || number <= 0) throw new Error('--' + flag + ' must be a positive number.');
+  return number;
+}
+
+// Throws with a message for the user on anything it doesn't understand
+export function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { command: 'help', prUrls: [], json: false, format: 'text', cache: true };
+  const values: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') return args;
+    if (arg === '--json') {
+      args.json = true;
+    } else if (arg === '--no-cache') {
+      args.cache = false;
+    } else if (arg.startsWith('--')) {
+      const [flag, inline] = arg.slice(2).split(/=(.*)/s);
+      if (!VALUE_FLAGS.includes(flag)) throw new Error('Unknown option --' + flag + '.');
+      const value = inline !== undefined ? inline : argv[++i];
+      if (value === undefined) throw new Error('--' + flag + ' needs a value.');
+      values[flag] = value;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command, ...prUrls] = positional;
+  if (!command || command === 'help') return args;
+  if (command !== 'check' && command !== 'watch' && command !== 'wait') throw new Error('Unknown command "' + command + '".');
+  if (prUrls.length === 0) throw new Error(command + ' needs a PR URL' + (command === 'wait' ? ' or commit SHA.' : '.'));
+  if (command !== 'watch' && prUrls.length > 1) throw new Error(command + ' takes one PR URL - use watch for several.');
+  if (command === 'wait' && !values.target) throw new Error('wait needs --target <stage>.');
+  const format = (values.format || 'text') as CheckFormat;
+  if (!CHECK_FORMATS.includes(format)) throw new Error('--format must be one of ' + CHECK_FORMATS.join(', ') + '.');
+  if (values.format && command !== 'check') throw new Error('--format only applies to check.');
+  if (args.json && values.format) throw new Error('Use either --json or --format.');
+
+  return {
+    ...args,
+    command,
+    prUrls,
+    format,
+    target: values.target,
+    train: values.train,
+    org: values.org,
+    trains: values.trains,
+    interval: values.interval !== undefined ? toNumber('interval', values.interval) : undefined,
+    timeout: values.timeout !== undefined ? toNumber('timeout', values.timeout) : undefined,
+  };
+}
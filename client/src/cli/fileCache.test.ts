@@ -0,0 +1,52 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFileCacheStore } from './fileCache';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'train-tracker-cache-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('createFileCacheStore', () => {
+  it('serves parallel lookups on a cold store from the file', async () => {
+    const path = join(dir, 'cache.json');
+    await writeFile(path, JSON.stringify([
+      { key: 'build:1', value: { id: 1 }, expiresAt: null },
+      { key: 'build:2', value: { id: 2 }, expiresAt: null },
+    ]));
+    const store = createFileCacheStore(path);
+
+    const [first, second] = await Promise.all([store.get('build:1'), store.get('build:2')]);
+
+    expect(first?.value).toEqual({ id: 1 });
+    expect(second?.value).toEqual({ id: 2 });
+  });
+
+  it('drops expired entries and writes the rest back on flush', async () => {
+    const path = join(dir, 'cache.json');
+    await writeFile(path, JSON.stringify([
+      { key: 'old', value: 1, expiresAt: Date.now() - 1000 },
+      { key: 'kept', value: 2, expiresAt: null },
+    ]));
+    const store = createFileCacheStore(path);
+
+    expect(await store.get('old')).toBeUndefined();
+    await store.put({ key: 'new', value: 3, expiresAt: null });
+    await store.flush();
+
+    const written = JSON.parse(await readFile(path, 'utf8')) as Array<{ key: string }>;
+    expect(written.map(e => e.key)).toEqual(['kept', 'new']);
+  });
+
+  it('starts empty without a cache file', async () => {
+    const store = createFileCacheStore(join(dir, 'missing', 'cache.json'));
+    expect(await store.get('anything')).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+// CLI CACHE - The persistent lookup cache as one JSON file, so repeated checks skip immutable builds and merge bases
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { CacheEntry, CacheStore } from '../core';
+
+export function defaultCachePath(): string {
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+  return join(base, 'train-tracker', 'cache.json');
+}
+
+// Entries are loaded once and written back by flush() - expired ones are dropped on load
+export function createFileCacheStore(path: string): CacheStore & { flush(): Promise<void> } {
+  let entries: Map<string, CacheEntry> | null = null;
+  let loading: Promise<Map<string, CacheEntry>> | undefined;
+  let dirty = false;
+
+  // One read shared by every caller - parallel lookups on a cold store must not see an empty map
+  const load = (): Promise<Map<string, CacheEntry>> => {
+    loading ??= (async () => {
+      const loaded = new Map<string, CacheEntry>();
+      try {
+        const stored = JSON.parse(await readFile(path, 'utf8')) as CacheEntry[];
+        const now = Date.now();
+        stored.forEach(entry => {
+          if (entry.expiresAt === null || entry.expiresAt >= now) loaded.set(entry.key, entry);
+        });
+      } catch {
+        // Missing or unreadable cache - start empty
+      }
+      entries = loaded;
+      return loaded;
+    })();
+    return loading;
+  };
+
+  return {
+    async get(key) {
+      return (await load()).get(key);
+    },
+    async put(entry) {
+      (await load()).set(entry.key, entry);
+      dirty = true;
+    },
+    async delete(key) {
+      dirty = (await load()).delete(key) || dirty;
+    },
+    async clear() {
+      (await load()).clear();
+      dirty = true;
+    },
+    async flush() {
+      if (!entries || !dirty) return;
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, JSON.stringify([...entries.values()]));
+      dirty = false;
+    },
+  };
+}
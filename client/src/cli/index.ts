@@ -0,0 +1,174 @@
+// TRAIN TRACKER CLI - Check, watch and wait on PRs from a terminal, a script or a pipeline, on the same core as the web app
+
+import { readFile } from 'node:fs/promises';
+import {
+  DEFAULT_TRAINS,
+  GATE_DEFAULTS,
+  PRDeploymentResult,
+  TrainDefinition,
+  WatchedPR,
+  applyWatchError,
+  applyWatchResult,
+  checkPRDeploymentStatus,
+  configureAdo,
+  createCheckContext,
+  createWatch,
+  describeWatchEvent,
+  formatReport,
+  isPermanentError,
+  parseTrainDefinitions,
+  setCacheStore,
+  waitUntilIncluded,
+} from '../core';
+import { CliArgs, USAGE, parseArgs } from './args';
+import { createFileCacheStore, defaultCachePath } from './fileCache';
+import { findTarget, formatGateResult, formatResult, targetNames } from './report';
+import { formatDateTime } from '../utils/format';
+
+const EXIT_REACHED = 0;
+const EXIT_NOT_REACHED = 1;
+const EXIT_ERROR = 2;
+
+class TargetError extends Error {}
+
+function readPat(): string {
+  const pat = process.env.ADO_PAT || process.env.AZURE_DEVOPS_EXT_PAT;
+  if (!pat) throw new Error('Set ADO_PAT (or AZURE_DEVOPS_EXT_PAT) to an Azure DevOps PAT.');
+  return pat.trim();
+}
+
+async function loadTrains(source?: string): Promise<TrainDefinition[]> {
+  if (!source) return DEFAULT_TRAINS;
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) throw new Error('Could not load train definitions from ' + source + ' (' + response.status + ').');
+    return parseTrainDefinitions(await response.json());
+  }
+  return parseTrainDefinitions(JSON.parse(await readFile(source, 'utf8')));
+}
+
+// Whether the target stage includes the PR - throws when there's no such stage to wait for
+function reachedTarget(result: PRDeploymentResult, target?: string): { name: string; reached: boolean } {
+  if (!result.supportedRepo) throw new TargetError(result.unsupportedMessage || 'Repository has no train definition.');
+  const stage = findTarget(result, target);
+  if (!stage) throw new TargetError('No stage named "' + target + '" - stages are: ' + targetNames(result) + '.');
+  return { name: stage.environment.displayName, reached: stage.status === 'included' };
+}
+
+async function runCheck(args: CliArgs, pat: string, trains: TrainDefinition[]): Promise<number> {
+  const result = await checkPRDeploymentStatus(args.prUrls[0], pat, { trains, trainId: args.train });
+
+  if (args.json) console.log(JSON.stringify(result, null, 2));
+  else if (args.format !== 'text') process.stdout.write(formatReport([result], args.format));
+  else console.log(formatResult(result));
+
+  const target = reachedTarget(result, args.target);
+  if (!args.json && args.format === 'text') console.log('\n' + target.name + ': ' + (target.reached ? 'reached' : 'not reached yet'));
+  return target.reached ? EXIT_REACHED : EXIT_NOT_REACHED;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Poll every PR until each reaches the target, printing stage changes as they happen
+async function runWatch(args: CliArgs, pat: string, trains: TrainDefinition[], afterRound: () => Promise<void>): Promise<number> {
+  let watches: WatchedPR[] = args.prUrls.map(prUrl => createWatch(prUrl, undefined, args.train));
+  const pending = new Set(args.prUrls);
+  const deadline = args.timeout ? Date.now() + args.timeout * 60 * 1000 : Infinity;
+
+  const log = (message: string) => { if (!args.json) console.log(message); };
+  const withInterval = (watch: WatchedPR, now: Date): WatchedPR => args.interval
+    ? { ...watch, nextCheckAt: new Date(now.getTime() + args.interval * 1000).toISOString() }
+    : watch;
+
+  for (;;) {
+    const now = new Date();
+    const context = createCheckContext();
+
+    watches = await Promise.all(watches.map(async watch => {
+      if (!pending.has(watch.prUrl) || new Date(watch.nextCheckAt) > now) return watch;
+      try {
+        const result = await checkPRDeploymentStatus(watch.prUrl, pat, { trains, trainId: watch.trainId, context });
+        const { watch: next, events } = applyWatchResult(watch, result, now);
+        const target = reachedTarget(result, args.target);
+
+        if (watch.stages.length === 0) log(formatResult(result) + '\n');
+        events.forEach(event => {
+          if (args.json) console.log(JSON.stringify(event));
+          else log('[' + formatDateTime(event.at) + '] ' + event.prTitle + ': ' + describeWatchEvent(event));
+        });
+        if (target.reached) {
+          pending.delete(watch.prUrl);
+          log('[' + formatDateTime(now.toISOString()) + '] ' + next.title + ': reached ' + target.name);
+        }
+        return withInterval(next, now);
+      } catch (error) {
+        if (error instanceof TargetError || isPermanentError(error)) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('[' + formatDateTime(now.toISOString()) + '] ' + watch.prUrl + ': ' + message);
+        return withInterval(applyWatchError(watch, message, now), now);
+      }
+    }));
+    await afterRound();
+
+    if (pending.size === 0) return EXIT_REACHED;
+    const nextCheck = Math.min(...watches.filter(w => pending.has(w.prUrl)).map(w => new Date(w.nextCheckAt).getTime()));
+    if (nextCheck > deadline) {
+      console.error('Timed out waiting for ' + pending.size + ' PR' + (pending.size === 1 ? '' : 's') + '.');
+      return EXIT_NOT_REACHED;
+    }
+    await sleep(Math.max(0, nextCheck - Date.now()));
+  }
+}
+
+// Gate for pipelines: block until one PR or commit reaches the target - progress on stderr, the outcome on stdout
+async function runWait(args: CliArgs, pat: string, trains: TrainDefinition[]): Promise<number> {
+  const result = await waitUntilIncluded(args.prUrls[0], pat, {
+    trains,
+    trainId: args.train,
+    organization: args.org,
+    target: args.target!,
+    interval: args.interval ? args.interval * 1000 : GATE_DEFAULTS.interval,
+    timeout: args.timeout ? args.timeout * 60 * 1000 : GATE_DEFAULTS.timeout,
+    onPoll: poll => console.error('[' + formatDateTime(poll.at) + '] ' + args.target + ': '
+      + (poll.status || 'check failed') + (poll.error ? ' - ' + poll.error.message : '')),
+  });
+
+  console.log(args.json ? JSON.stringify(result, null, 2) : formatGateResult(result));
+  return result.reached ? EXIT_REACHED : EXIT_NOT_REACHED;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error((error instanceof Error ? error.message : String(error)) + '\n\n' + USAGE);
+    return EXIT_ERROR;
+  }
+  if (args.command === 'help') {
+    console.log(USAGE);
+    return EXIT_REACHED;
+  }
+
+  // Another ADO host, e.g. the mock server (npm run mock:ado)
+  if (process.env.ADO_BASE_URL) configureAdo({ baseUrl: process.env.ADO_BASE_URL });
+
+  const cache = args.cache ? createFileCacheStore(defaultCachePath()) : null;
+  if (cache) setCacheStore(cache);
+  const flush = () => cache ? cache.flush().catch(() => undefined) : Promise.resolve();
+
+  try {
+    const pat = readPat();
+    const trains = await loadTrains(args.trains);
+    if (args.command === 'check') return await runCheck(args, pat, trains);
+    if (args.command === 'wait') return await runWait(args, pat, trains);
+    return await runWatch(args, pat, trains, flush);
+  } catch (error) {
+    console.error('train-tracker: ' + (error instanceof Error ? error.message : String(error)));
+    return EXIT_ERROR;
+  } finally {
+    await flush();
+  }
+}
+
+main(process.argv.slice(2)).then(code => { process.exitCode = code; });
@@ -0,0 +1,80 @@
+// CLI REPORT - Target stage resolution and the plain-text rendering of a check
+
+import { EnvironmentDeploymentStatus, GateResult, PRDeploymentResult, PreMergeStatus, findStage, stageNames } from '../core';
+import { describeError, getStatusIcon } from '../utils/status';
+import { formatDateTime, formatDuration, formatShortDate } from '../utils/format';
+
+// The stage (or region) that decides the exit code - the last stage unless one is named
+export function findTarget(result: PRDeploymentResult, target?: string): EnvironmentDeploymentStatus | undefined {
+  return target ? findStage(result.environments, target) : result.environments[result.environments.length - 1];
+}
+
+export function targetNames(result: PRDeploymentResult): string {
+  return stageNames(result.environments).join(', ');
+}
+
+function describeStage(env: EnvironmentDeploymentStatus, indent: string): string[] {
+  const details: string[] = [];
+  if (env.buildNumber) details.push(env.buildNumber);
+  if (env.buildTimestamp && env.status === 'included') details.push('landed ' + formatDateTime(env.buildTimestamp));
+  if (env.via) details.push('via cherry-pick ' + (env.via.pullRequestId !== undefined ? 'PR #' + env.via.pullRequestId : env.via.commitId.substring(0, 8)) + ' on ' + env.via.branch.replace(/^refs\/heads\//, ''));
+  if (env.reverted) details.push('revert live');
+  if (env.status === 'rolled-back' && env.rollback) {
+    details.push('rolled back to ' + env.rollback.buildNumber + ' ' + formatDateTime(env.rollback.finishTime || env.rollback.startTime));
+  }
+  if (env.coverage === 'partial' && env.regions) {
+    details.push(env.regions.filter(r => r.status === 'included').length + '/' + env.regions.length + ' regions');
+  }
+  if (env.status !== 'included' && env.eta) details.push('ETA ' + formatShortDate(env.eta.expected) + ' (' + env.eta.confidence + ')');
+  else if (env.status !== 'included' && env.expectedDate) details.push('expected ' + formatShortDate(env.expectedDate));
+  if (env.error) details.push(describeError(env.error));
+
+  const line = indent + getStatusIcon(env.status) + ' ' + env.environment.displayName.padEnd(24 - indent.length)
+    + ' ' + env.status + (details.length > 0 ? ' · ' + details.join(' · ') : '');
+  return [line, ...(env.regions || []).flatMap(region => describeStage(region, indent + '    '))];
+}
+
+// Active PRs: one line each for reviews, policies and the cut a merge now would catch
+function describePreMerge(preMerge: PreMergeStatus): string[] {
+  const votes = preMerge.reviewers.filter(r => r.vote !== 'no-vote').map(r => r.name + ' ' + r.vote);
+  const blocking = preMerge.policies.filter(p => p.blocking);
+  const failing = blocking.filter(p => p.status !== 'approved' && p.status !== 'not-applicable');
+  return [
+    (preMerge.isDraft ? 'Draft · ' : '') + 'Reviews: ' + (votes.length > 0 ? votes.join(', ') : 'no votes yet'),
+    'Policies: ' + (preMerge.policyError
+      ? describeError(preMerge.policyError)
+      : (blocking.length - failing.length) + '/' + blocking.length + ' required passing'
+        + (failing.length > 0 ? ' (' + failing.map(p => p.name + ' ' + p.status).join(', ') + ')' : '')),
+    ...(preMerge.nextCut ? ['If merged now: ' + preMerge.nextCut.environment + ' cut ~' + formatDateTime(preMerge.nextCut.expected)] : []),
+  ];
+}
+
+export function formatResult(result: PRDeploymentResult): string {
+  const { prInfo } = result;
+  const lines = [
+    'PR #' + prInfo.id + ': ' + prInfo.title,
+    prInfo.repository.name + ' · ' + prInfo.status + (prInfo.closedDate ? ' ' + formatDateTime(prInfo.closedDate) : '')
+      + (result.train ? ' · train ' + result.train.name : ''),
+  ];
+  if (result.unsupportedMessage) lines.push(result.unsupportedMessage);
+  if (result.preMerge) lines.push(...describePreMerge(result.preMerge));
+  if (result.revert) {
+    lines.push('Reverted by ' + (result.revert.pullRequestId !== undefined ? 'PR #' + result.revert.pullRequestId : result.revert.commitId.substring(0, 8))
+      + ' (' + formatDateTime(result.revert.date) + ')');
+  }
+  if (result.environments.length > 0) {
+    lines.push('');
+    result.environments.forEach(env => lines.push(...describeStage(env, '  ')));
+  }
+  return lines.join('\n');
+}
+
+// "MSIT: reached in 20261019.2 after 14 polls (1h 52m)"
+export function formatGateResult(result: GateResult): string {
+  const waited = formatDuration(new Date(result.finishedAt).getTime() - new Date(result.startedAt).getTime());
+  const outcome = result.reached
+    ? 'reached' + (result.buildNumber ? ' in ' + result.buildNumber : '')
+    : 'timed out at ' + result.status;
+  return result.target + ': ' + outcome + ' after ' + result.polls + ' poll' + (result.polls === 1 ? '' : 's') + ' (' + waited + ')'
+    + (!result.reached && result.error ? '\nLast error: ' + describeError(result.error) : '');
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { checkPRDeploymentStatusBatch, listMyCompletedPRs } from '../services/adoService';
+import { parsePRList } from '../services/collectionService';
+import DeploymentMatrix from './DeploymentMatrix';
+import ReportExport from './ReportExport';
+import { BatchCheckEntry, PRDeploymentResult, TrainDefinition } from '../types';
+
+interface BatchViewProps {
+  pat: string;
+  trains: TrainDefinition[];
+}
+
+type BatchSource = 'list' | 'query';
+
+const DEFAULT_REPO_URL = 'https://dev.azure.com/powerbi/PowerBIClients/_git/PowerBIClients';
+
+function BatchView({ pat, trains }: BatchViewProps) {
+  const [source, setSource] = useState<BatchSource>('list');
+  const [listText, setListText] = useState('');
+  const [repoUrl, setRepoUrl] = useState(DEFAULT_REPO_URL);
+  const [days, setDays] = useState(14);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [entries, setEntries] = useState<BatchCheckEntry[]>([]);
+
+  const canSubmit = !!pat.trim() && (source === 'list' ? parsePRList(listText).length > 0 : !!repoUrl.trim() && days > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setLoading(true);
+    setError(null);
+    setEntries([]);
+
+    try {
+      const prUrls = source === 'list'
+        ? parsePRList(listText)
+        : await listMyCompletedPRs(repoUrl.trim(), pat.trim(), days);
+      if (prUrls.length === 0) {
+        setError('No pull requests found.');
+        return;
+      }
+
+      setEntries(prUrls.map(prUrl => ({ prUrl })));
+      await checkPRDeploymentStatusBatch(prUrls, pat.trim(), { trains }, (entry, index) => {
+        setEntries(prev => prev.map((e, i) => (i === index ? entry : e)));
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const completed = entries.filter(e => e.result || e.error).length;
+
+  return (
+    <>
+      <form onSubmit={handleSubmit} className="input-form">
+        <div className="batch-source">
+          <button type="button" className={source === 'list' ? 'active' : ''} onClick={() => setSource('list')}>
+            Paste PR list
+          </button>
+          <button type="button" className={source === 'query' ? 'active' : ''} onClick={() => setSource('query')}>
+            My completed PRs
+          </button>
+        </div>
+
+        {source === 'list' ? (
+          <div className="input-group">
+            <label htmlFor="prList">PR URLs (one per line)</label>
+            <textarea
+              id="prList"
+              rows={6}
+              value={listText}
+              onChange={(e) => setListText(e.target.value)}
+              placeholder="https://dev.azure.com/powerbi/PowerBIClients/_git/PowerBIClients/pullrequest/123456"
+              disabled={loading}
+            />
+          </div>
+        ) : (
+          <>
+            <div className="input-group">
+              <label htmlFor="repoUrl">Repository URL</label>
+              <input
+                id="repoUrl"
+                type="text"
+                value={repoUrl}
+                onChange={(e) => setRepoUrl(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+            <div className="input-group">
+              <label htmlFor="days">Completed in the last (days)</label>
+              <input
+                id="days"
+                type="number"
+                min={1}
+                value={days}
+                onChange={(e) => setDays(parseInt(e.target.value, 10) || 0)}
+                disabled={loading}
+              />
+            </div>
+          </>
+        )}
+
+        {!pat.trim() && <p className="pat-hint">Add a PAT or sign in above to run checks.</p>}
+        <button type="submit" disabled={loading || !canSubmit}>
+          {loading ? 'Checking ' + completed + '/' + entries.length + '...' : 'Check All'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="error-box">
+          <span>⚠️</span> {error}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="environments batch-results">
+          <h3>Batch Status ({completed}/{entries.length})</h3>
+          <DeploymentMatrix entries={entries} />
+          {!loading && <ReportExport results={entries.map(e => e.result).filter((r): r is PRDeploymentResult => !!r)} fileName="batch-deployment" />}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default BatchView;
@@ -0,0 +1,256 @@
+import { useEffect, useRef, useState } from 'react';
+import { checkPRDeploymentStatusBatch } from '../services/adoService';
+import {
+  createCollection,
+  downloadCollections,
+  loadCollections,
+  mergeCollections,
+  parseCollectionsExport,
+  parsePRList,
+  saveCollections,
+} from '../services/collectionService';
+import { countFullyDeployed, stageLeadTimes } from '../utils/metrics';
+import { formatDuration } from '../utils/format';
+import DeploymentMatrix from './DeploymentMatrix';
+import ReportExport from './ReportExport';
+import { BatchCheckEntry, PRCollection, PRDeploymentResult, TrainDefinition } from '../types';
+
+interface CollectionsViewProps {
+  pat: string;
+  trains: TrainDefinition[];
+}
+
+interface Draft {
+  name: string;
+  listText: string;
+  trainId: string;
+}
+
+const toDraft = (collection: PRCollection, trains: TrainDefinition[]): Draft => ({
+  name: collection.name,
+  listText: collection.prUrls.join('\n'),
+  trainId: collection.trainId || trains[0]?.id || '',
+});
+
+// Saved PR collections for release reviews: progress of every PR through the train and merge -> stage lead times
+function CollectionsView({ pat, trains }: CollectionsViewProps) {
+  const [collections, setCollections] = useState<PRCollection[]>(loadCollections);
+  const [selectedId, setSelectedId] = useState<string | null>(() => loadCollections()[0]?.id || null);
+  const selected = collections.find(c => c.id === selectedId) || null;
+  const [draft, setDraft] = useState<Draft | null>(() => (selected ? toDraft(selected, trains) : null));
+  const [entries, setEntries] = useState<BatchCheckEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => saveCollections(collections), [collections]);
+
+  const select = (collection: PRCollection | null) => {
+    setSelectedId(collection?.id || null);
+    setDraft(collection ? toDraft(collection, trains) : null);
+    setEntries([]);
+    setError(null);
+  };
+
+  const dirty = !!selected && !!draft && (
+    draft.name !== selected.name
+    || draft.listText !== selected.prUrls.join('\n')
+    || draft.trainId !== (selected.trainId || trains[0]?.id || '')
+  );
+
+  const handleNew = () => {
+    const collection = createCollection('Untitled collection', [], trains[0]?.id);
+    setCollections(prev => [...prev, collection]);
+    select(collection);
+  };
+
+  const handleSave = () => {
+    if (!selected || !draft || !draft.name.trim()) return;
+    const updated: PRCollection = {
+      ...selected,
+      name: draft.name.trim(),
+      prUrls: parsePRList(draft.listText),
+      trainId: draft.trainId || undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    setCollections(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+    setDraft(toDraft(updated, trains));
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm('Delete the collection "' + selected.name + '"?')) return;
+    const remaining = collections.filter(c => c.id !== selected.id);
+    setCollections(remaining);
+    select(remaining[0] || null);
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      const imported = parseCollectionsExport(JSON.parse(await file.text()));
+      setCollections(prev => mergeCollections(prev, imported));
+      if (imported.length > 0) select(imported[0]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file.');
+    }
+  };
+
+  const handleCheck = async () => {
+    if (!selected || !pat.trim() || selected.prUrls.length === 0) return;
+
+    setLoading(true);
+    setError(null);
+    setEntries(selected.prUrls.map(prUrl => ({ prUrl })));
+    try {
+      await checkPRDeploymentStatusBatch(selected.prUrls, pat.trim(), { trains, trainId: selected.trainId }, (entry, index) => {
+        setEntries(prev => prev.map((e, i) => (i === index ? entry : e)));
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const results = entries.map(e => e.result).filter((r): r is PRDeploymentResult => !!r);
+  const completed = entries.filter(e => e.result || e.error).length;
+  const leadTimes = stageLeadTimes(results);
+
+  return (
+    <>
+      <div className="input-form">
+        <div className="collections-bar">
+          <div className="input-group">
+            <label htmlFor="collection">Collection</label>
+            <select
+              id="collection"
+              value={selectedId || ''}
+              onChange={(e) => select(collections.find(c => c.id === e.target.value) || null)}
+              disabled={loading || collections.length === 0}
+            >
+              {collections.length === 0 && <option value="">No collections yet</option>}
+              {collections.map(c => <option key={c.id} value={c.id}>{c.name} ({c.prUrls.length})</option>)}
+            </select>
+          </div>
+          <div className="collections-actions">
+            <button type="button" className="link-button" onClick={handleNew} disabled={loading}>New</button>
+            <button type="button" className="link-button" onClick={() => importInput.current?.click()} disabled={loading}>Import</button>
+            {collections.length > 0 && (
+              <button type="button" className="link-button" onClick={() => downloadCollections(collections)}>Export all</button>
+            )}
+            <input
+              ref={importInput}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        {selected && draft && (
+          <>
+            <div className="history-controls">
+              <div className="input-group">
+                <label htmlFor="collectionName">Name</label>
+                <input
+                  id="collectionName"
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  disabled={loading}
+                />
+              </div>
+              <div className="input-group">
+                <label htmlFor="collectionTrain">Train</label>
+                <select
+                  id="collectionTrain"
+                  value={draft.trainId}
+                  onChange={(e) => setDraft({ ...draft, trainId: e.target.value })}
+                  disabled={loading}
+                >
+                  {trains.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="input-group">
+              <label htmlFor="collectionPRs">PR URLs (one per line)</label>
+              <textarea
+                id="collectionPRs"
+                rows={5}
+                value={draft.listText}
+                onChange={(e) => setDraft({ ...draft, listText: e.target.value })}
+                placeholder="https://dev.azure.com/powerbi/PowerBIClients/_git/PowerBIClients/pullrequest/123456"
+                disabled={loading}
+              />
+            </div>
+            <div className="collections-actions">
+              <button type="button" className="link-button" onClick={handleSave} disabled={!dirty || !draft.name.trim()}>Save changes</button>
+              <button type="button" className="link-button" onClick={() => downloadCollections([selected])}>Export</button>
+              <button type="button" className="link-button" onClick={handleDelete} disabled={loading}>Delete</button>
+            </div>
+
+            {!pat.trim() && <p className="pat-hint">Add a PAT or sign in above to check the collection.</p>}
+            <button type="button" onClick={handleCheck} disabled={loading || dirty || !pat.trim() || selected.prUrls.length === 0}>
+              {loading ? 'Checking ' + completed + '/' + entries.length + '...' : dirty ? 'Save changes to check' : 'Check Collection'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="error-box">
+          <span>⚠️</span> {error}
+        </div>
+      )}
+
+      {selected && entries.length > 0 && (
+        <div className="environments collections">
+          <h3>
+            {selected.name} - {countFullyDeployed(results)}/{entries.length} PRs fully deployed
+            {loading && ' (checking ' + completed + '/' + entries.length + ')'}
+          </h3>
+
+          {leadTimes.length > 0 && (
+            <table className="history-table collections-metrics">
+              <thead>
+                <tr>
+                  <th>Stage</th>
+                  <th>Progress</th>
+                  <th>Median merge → stage</th>
+                  <th>Fastest</th>
+                  <th>Slowest</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leadTimes.map(stage => (
+                  <tr key={stage.stage}>
+                    <td>{stage.displayName}</td>
+                    <td>
+                      <span className="collections-progress">
+                        <span style={{ width: (stage.merged > 0 ? (stage.reached / stage.merged) * 100 : 0) + '%' }} />
+                      </span>
+                      {' '}{stage.reached}/{stage.merged}
+                    </td>
+                    <td>{stage.median !== undefined ? formatDuration(stage.median) : '-'}</td>
+                    <td>{stage.fastest !== undefined ? formatDuration(stage.fastest) : '-'}</td>
+                    <td>{stage.slowest !== undefined ? formatDuration(stage.slowest) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <DeploymentMatrix entries={entries} />
+          {!loading && <ReportExport results={results} fileName={selected.name.replace(/[^\w.-]+/g, '-').toLowerCase() + '-deployment'} />}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default CollectionsView;
@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { compareEnvironments } from '../services/adoService';
+import { formatDateTime } from '../utils/format';
+import { ChangeEntry, EnvironmentBuild, EnvironmentComparison, EnvironmentConfig, TrainDefinition } from '../types';
+
+interface CompareViewProps {
+  pat: string;
+  trains: TrainDefinition[];
+}
+
+// Default pair - the hop release captains ask about most
+const DEFAULT_PAIR = ['MSIT', 'Canary1'];
+
+// Stages and regions that can be compared (grouped stages are compared region by region)
+function comparableStages(train?: TrainDefinition): EnvironmentConfig[] {
+  const flatten = (environments: EnvironmentConfig[]): EnvironmentConfig[] =>
+    environments.flatMap(env => env.regions ? flatten(env.regions) : [env]);
+  return train ? flatten(train.environments) : [];
+}
+
+function defaultPair(train?: TrainDefinition): [string, string] {
+  const names = comparableStages(train).map(env => env.name);
+  if (DEFAULT_PAIR.every(name => names.includes(name))) return [DEFAULT_PAIR[0], DEFAULT_PAIR[1]];
+  return [names[0] || '', names[1] || names[0] || ''];
+}
+
+// PR id / URL, AB#work item, author, commit SHA or words from the title
+function matchesChange(change: ChangeEntry, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+
+  const pr = q.match(/pullrequest\/(\d+)/) || q.match(/^(?:pr\s*)?!?(\d+)$/);
+  if (pr && change.pullRequestId === parseInt(pr[1], 10)) return true;
+  const workItem = q.match(/^(?:ab)?#(\d+)$/);
+  if (workItem) return change.workItemIds.includes(parseInt(workItem[1], 10));
+
+  return change.comment.toLowerCase().includes(q)
+    || change.author.toLowerCase().includes(q)
+    || (change.authorEmail || '').toLowerCase().includes(q)
+    || (q.length >= 7 && change.commitId.toLowerCase().startsWith(q));
+}
+
+function BuildSummary({ side }: { side: EnvironmentBuild }) {
+  return (
+    <span>
+      <strong>{side.environment.displayName}</strong>{' '}
+      {side.url
+        ? <a href={side.url} target="_blank" rel="noopener noreferrer">{side.buildNumber}</a>
+        : side.buildNumber}
+      {' '}<span className="compare-muted">deployed {formatDateTime(side.finishTime || side.startTime)}</span>
+    </span>
+  );
+}
+
+// What's in flight between two environments: the commits and PRs one build has and the other doesn't
+function CompareView({ pat, trains }: CompareViewProps) {
+  const [trainId, setTrainId] = useState(trains[0]?.id);
+  const train = trains.find(t => t.id === trainId) || trains[0];
+  const [pair, setPair] = useState<[string, string]>(() => defaultPair(train));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<EnvironmentComparison | null>(null);
+  const [query, setQuery] = useState('');
+  const [prsOnly, setPrsOnly] = useState(true);
+
+  const stages = comparableStages(train);
+
+  const handleTrainChange = (id: string) => {
+    setTrainId(id);
+    setPair(defaultPair(trains.find(t => t.id === id)));
+    setComparison(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pat.trim() || pair[0] === pair[1]) return;
+
+    setLoading(true);
+    setError(null);
+    setComparison(null);
+    try {
+      setComparison(await compareEnvironments(pat.trim(), pair[0], pair[1], { trains, trainId: train?.id }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const listed = comparison?.changes.filter(c => (!prsOnly || c.pullRequestId !== undefined) && matchesChange(c, query)) || [];
+  const prCount = comparison?.changes.filter(c => c.pullRequestId !== undefined).length || 0;
+
+  return (
+    <>
+      <form onSubmit={handleSubmit} className="input-form">
+        <div className="history-controls">
+          <div className="input-group">
+            <label htmlFor="compareTrain">Train</label>
+            <select id="compareTrain" value={train?.id} onChange={(e) => handleTrainChange(e.target.value)} disabled={loading}>
+              {trains.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+          </div>
+          {[0, 1].map(side => (
+            <div className="input-group" key={side}>
+              <label htmlFor={'compareStage' + side}>{side === 0 ? 'Environment' : 'Compared with'}</label>
+              <select
+                id={'compareStage' + side}
+                value={pair[side]}
+                onChange={(e) => setPair(side === 0 ? [e.target.value, pair[1]] : [pair[0], e.target.value])}
+                disabled={loading}
+              >
+                {stages.map(env => <option key={env.name} value={env.name}>{env.name}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+        {!pat.trim() && <p className="pat-hint">Add a PAT or sign in above to compare environments.</p>}
+        <button type="submit" disabled={loading || !pat.trim() || pair[0] === pair[1]}>
+          {loading ? 'Comparing...' : 'Compare'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="error-box">
+          <span>⚠️</span> {error}
+        </div>
+      )}
+
+      {comparison && (
+        <div className="environments compare">
+          <div className="compare-builds">
+            <BuildSummary side={comparison.ahead} />
+            <span className="compare-arrow">{comparison.sameBuild ? '=' : '→'}</span>
+            <BuildSummary side={comparison.behind} />
+          </div>
+
+          {comparison.sameBuild ? (
+            <p className="compare-muted">Both environments run the same build - nothing in flight.</p>
+          ) : (
+            <>
+              <p className="compare-headline">
+                {comparison.changes.length}{comparison.truncated ? '+' : ''} commit{comparison.changes.length === 1 ? '' : 's'}
+                {' '}({prCount} PR{prCount === 1 ? '' : 's'}) in {comparison.ahead.environment.displayName} not yet
+                in {comparison.behind.environment.displayName}
+              </p>
+              {comparison.diverged && (
+                <p className="compare-warning">
+                  ⚠️ Neither build contains the other (e.g. a hotfix build) - only changes on the{' '}
+                  {comparison.ahead.environment.displayName} side are listed.
+                </p>
+              )}
+
+              <div className="compare-filters">
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search by PR (123 or URL), author, work item (AB#123), SHA or title"
+                />
+                <label className="compare-toggle">
+                  <input type="checkbox" checked={prsOnly} onChange={(e) => setPrsOnly(e.target.checked)} />
+                  PR merges only
+                </label>
+              </div>
+
+              {listed.length === 0 ? (
+                <p className="compare-muted">{query.trim() ? 'No matching changes - not in flight between these environments.' : 'No changes to show.'}</p>
+              ) : (
+                <table className="history-table compare-table">
+                  <thead>
+                    <tr>
+                      <th>Change</th>
+                      <th>Title</th>
+                      <th>Author</th>
+                      <th>Date</th>
+                      <th>Work items</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {listed.map(change => (
+                      <tr key={change.commitId}>
+                        <td>
+                          {change.pullRequestId !== undefined ? (
+                            change.pullRequestUrl
+                              ? <a href={change.pullRequestUrl} target="_blank" rel="noopener noreferrer">PR {change.pullRequestId}</a>
+                              : 'PR ' + change.pullRequestId
+                          ) : change.url ? (
+                            <a href={change.url} target="_blank" rel="noopener noreferrer"><code>{change.commitId.substring(0, 8)}</code></a>
+                          ) : (
+                            <code>{change.commitId.substring(0, 8)}</code>
+                          )}
+                        </td>
+                        <td>{change.comment.replace(/^Merged PR \d+:\s*/i, '')}</td>
+                        <td title={change.authorEmail}>{change.author}</td>
+                        <td>{formatDateTime(change.date)}</td>
+                        <td>{change.workItemIds.map(id => 'AB#' + id).join(', ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default CompareView;
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { entraConfigured } from '../services/entraService';
+import { CredentialsState } from '../hooks/useCredentials';
+import { CredentialStorage } from '../types';
+
+interface CredentialManagerProps {
+  credentials: CredentialsState;
+}
+
+const STORAGE_OPTIONS: { value: CredentialStorage; label: string }[] = [
+  { value: 'memory', label: "Don't store - this tab only" },
+  { value: 'session', label: 'This browser session' },
+  { value: 'encrypted', label: 'Remember, encrypted with a passphrase' },
+];
+
+// Token entry (PAT or Entra ID sign-in), storage choice and the startup scope check - shared by both modes
+function CredentialManager({ credentials }: CredentialManagerProps) {
+  const { credential, storage, locked, verification, verifying } = credentials;
+  const [pat, setPat] = useState('');
+  const [nextStorage, setNextStorage] = useState<CredentialStorage>('memory');
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPat('');
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUsePat = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pat.trim() || (nextStorage === 'encrypted' && !passphrase)) return;
+    run(() => credentials.applyPat(pat, nextStorage, passphrase));
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    run(() => credentials.unlock(passphrase));
+  };
+
+  if (credential) {
+    const missing = verification?.scopes.filter(s => !s.granted && !s.optional) || [];
+    const missingOptional = verification?.scopes.filter(s => !s.granted && s.optional) || [];
+
+    return (
+      <div className="credential-panel">
+        <div className="credential-summary">
+          <span>
+            🔑 {credential.kind === 'entra' ? 'Signed in' + (credential.account ? ' as ' + credential.account : '') : 'PAT'}
+            {verification?.user && credential.kind === 'pat' && ' (' + verification.user + ')'}
+            {' · '}
+            {credential.kind === 'entra' ? 'Entra ID session' : STORAGE_OPTIONS.find(o => o.value === storage)?.label}
+          </span>
+          <button type="button" className="link-button" onClick={() => run(credentials.signOut)}>
+            {credential.kind === 'entra' ? 'Sign out' : 'Forget token'}
+          </button>
+        </div>
+
+        {verifying && <p className="pat-hint">Verifying token with Azure DevOps...</p>}
+        {verification && !verification.valid && (
+          <div className="credential-problem">⚠️ {verification.error}</div>
+        )}
+        {verification?.valid && missing.length > 0 && (
+          <div className="credential-problem">
+            ⚠️ Missing required scope{missing.length === 1 ? '' : 's'}:{' '}
+            {missing.map(s => s.label + ' (' + s.scope + ')').join(', ')}
+          </div>
+        )}
+        {verification?.valid && missingOptional.length > 0 && (
+          <p className="pat-hint">
+            Optional scope not granted: {missingOptional.map(s => s.label + ' (' + s.scope + ')').join(', ')} - work item lookups won't work
+          </p>
+        )}
+        {verification?.expiresOn && (
+          <p className="pat-hint">Token expires {new Date(verification.expiresOn).toLocaleString()}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (locked) {
+    return (
+      <form className="credential-panel" onSubmit={handleUnlock}>
+        <div className="input-group">
+          <label htmlFor="unlockPassphrase">Passphrase for your stored PAT</label>
+          <input
+            id="unlockPassphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            disabled={busy}
+          />
+        </div>
+        {error && <div className="credential-problem">⚠️ {error}</div>}
+        <div className="credential-actions">
+          <button type="submit" disabled={busy || !passphrase}>Unlock</button>
+          <button type="button" className="link-button" onClick={() => run(credentials.signOut)}>Forget stored token</button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <form className="credential-panel" onSubmit={handleUsePat}>
+      <div className="input-group">
+        <label htmlFor="pat">
+          PAT Token
+          <a
+            href="https://dev.azure.com/powerbi/_usersSettings/tokens"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="pat-help-link"
+            title="Create a new PAT token"
+          >
+            Create PAT →
+          </a>
+        </label>
+        <p className="pat-hint">
+          Required scopes: <strong>Code</strong> (Read), <strong>Build</strong> (Read), <strong>Environment</strong> (Read & manage)
+        </p>
+        <input
+          id="pat"
+          type="password"
+          value={pat}
+          onChange={(e) => setPat(e.target.value)}
+          placeholder="Your Azure DevOps Personal Access Token"
+          disabled={busy}
+        />
+      </div>
+      <div className="input-group">
+        <label htmlFor="patStorage">Keep it</label>
+        <select id="patStorage" value={nextStorage} onChange={(e) => setNextStorage(e.target.value as CredentialStorage)} disabled={busy}>
+          {STORAGE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </div>
+      {nextStorage === 'encrypted' && (
+        <div className="input-group">
+          <label htmlFor="patPassphrase">Passphrase</label>
+          <p className="pat-hint">Encrypts the PAT in this browser (AES-GCM). It can't be recovered without the passphrase.</p>
+          <input
+            id="patPassphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            disabled={busy}
+          />
+        </div>
+      )}
+      {error && <div className="credential-problem">⚠️ {error}</div>}
+      <div className="credential-actions">
+        <button type="submit" disabled={busy || !pat.trim() || (nextStorage === 'encrypted' && !passphrase)}>Use PAT</button>
+        {entraConfigured && (
+          <button type="button" className="entra-button" onClick={() => run(credentials.signIn)} disabled={busy}>
+            Sign in with Microsoft
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export default CredentialManager;
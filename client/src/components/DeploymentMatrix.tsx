@@ -0,0 +1,67 @@
+import { describeError, getStatusColor, getStatusIcon } from '../utils/status';
+import { BatchCheckEntry } from '../types';
+
+interface DeploymentMatrixProps {
+  entries: BatchCheckEntry[];
+}
+
+// PRs x environments status matrix (batch mode, work item lookups)
+function DeploymentMatrix({ entries }: DeploymentMatrixProps) {
+  // Matrix columns: union of stage names across results, in ladder order
+  const columns: string[] = [];
+  for (const entry of entries) {
+    for (const env of entry.result?.environments || []) {
+      if (!columns.includes(env.environment.name)) columns.push(env.environment.name);
+    }
+  }
+
+  return (
+    <div className="batch-table-wrapper">
+      <table className="batch-table">
+        <thead>
+          <tr>
+            <th>PR</th>
+            {columns.map(name => <th key={name}>{name}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.prUrl}>
+              <td className="batch-pr">
+                {entry.result ? (
+                  <a href={entry.result.prInfo.url} target="_blank" rel="noopener noreferrer" title={entry.result.prInfo.title}>
+                    #{entry.result.prInfo.id} {entry.result.prInfo.title}
+                  </a>
+                ) : (
+                  <span className="batch-pending" title={entry.prUrl}>{entry.error || entry.prUrl}</span>
+                )}
+                {entry.result?.unsupportedMessage && (
+                  <div className="batch-note">{entry.result.unsupportedMessage}</div>
+                )}
+              </td>
+              {columns.map(name => {
+                const envData = entry.result?.prInfo.mergeCommitId
+                  ? entry.result.environments.find(e => e.environment.name === name)
+                  : undefined;
+                return (
+                  <td key={name} className="batch-cell">
+                    <span
+                      className={`env-node batch-node ${envData ? getStatusColor(envData.status) : 'status-pending'}`}
+                      title={envData
+                        ? envData.status + (envData.buildNumber ? ' (' + envData.buildNumber + ')' : '') + (envData.error ? ' - ' + describeError(envData.error) : '')
+                        : 'pending'}
+                    >
+                      <span className="env-icon">{envData ? getStatusIcon(envData.status) : '○'}</span>
+                    </span>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default DeploymentMatrix;
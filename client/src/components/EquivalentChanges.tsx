@@ -0,0 +1,57 @@
+import { formatDateTime } from '../utils/format';
+import { EquivalentChange } from '../types';
+
+interface EquivalentChangesProps {
+  cherryPicks?: EquivalentChange[];
+  revert?: EquivalentChange;
+}
+
+const shortBranch = (branch: string) => branch.replace(/^refs\/heads\//, '');
+
+function ChangeLink({ change }: { change: EquivalentChange }) {
+  if (change.pullRequestId !== undefined) {
+    return change.pullRequestUrl
+      ? <a href={change.pullRequestUrl} target="_blank" rel="noopener noreferrer">PR #{change.pullRequestId}</a>
+      : <>PR #{change.pullRequestId}</>;
+  }
+  const sha = <code>{change.commitId.substring(0, 8)}</code>;
+  return change.url ? <a href={change.url} target="_blank" rel="noopener noreferrer">{sha}</a> : sha;
+}
+
+// Other commits carrying the PR's change: a revert on its target branch, cherry-picks onto release branches
+function EquivalentChanges({ cherryPicks, revert }: EquivalentChangesProps) {
+  return (
+    <>
+      {revert && (
+        <div className="warning-box">
+          <span className="warning-icon">↩️</span>
+          <div>
+            <strong>Reverted</strong>
+            <p>
+              <ChangeLink change={revert} /> reverted this PR on {shortBranch(revert.branch)} ({formatDateTime(revert.date)}).
+              Stages marked "revert live" no longer run the change.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {cherryPicks && cherryPicks.length > 0 && (
+        <div className="info-box">
+          <span>🍒</span>
+          <p>
+            Cherry-picked as{' '}
+            {cherryPicks.map((pick, index) => (
+              <span key={pick.commitId}>
+                {index > 0 && ', '}
+                <ChangeLink change={pick} /> on {shortBranch(pick.branch)}
+              </span>
+            ))}
+            {' '}- stages running those builds count as included.
+          </p>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default EquivalentChanges;
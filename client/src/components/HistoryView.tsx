@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { getTrainDeploymentHistory } from '../services/adoService';
+import { describeError } from '../utils/status';
+import { formatDateTime, formatDuration, formatShortDate } from '../utils/format';
+import { deploymentDuration, summarizeHistory } from '../utils/history';
+import { DeploymentHistoryEntry, EnvironmentHistory, TrainDefinition } from '../types';
+
+interface HistoryViewProps {
+  pat: string;
+  trains: TrainDefinition[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_OPTIONS = [3, 7, 14];
+
+const HEALTH_LABELS = {
+  rolling: 'Rolling',
+  failing: 'Last run failed',
+  stuck: 'Possibly stuck',
+  idle: 'No deployments',
+} as const;
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+function RunLink({ run }: { run: DeploymentHistoryEntry }) {
+  return run.url
+    ? <a href={run.url} target="_blank" rel="noopener noreferrer">{run.buildNumber}</a>
+    : <>{run.buildNumber}</>;
+}
+
+// One lane of the timeline: a bar per deployment, placed by start and finish time
+function TimelineTrack({ deployments, range }: { deployments: DeploymentHistoryEntry[]; range: TimeRange }) {
+  const span = range.end - range.start;
+  return (
+    <div className="history-track">
+      {deployments.map(run => {
+        const start = Math.max(range.start, new Date(run.startTime).getTime());
+        const end = run.finishTime ? new Date(run.finishTime).getTime() : range.end;
+        return (
+          <span
+            key={run.buildId + '@' + run.startTime}
+            className={`history-run history-run-${run.result}`}
+            style={{ left: ((start - range.start) / span) * 100 + '%', width: Math.max(0, ((end - start) / span) * 100) + '%' }}
+            title={run.buildNumber + ' · ' + run.result + ' · ' + formatDateTime(run.startTime)
+              + ' · ' + formatDuration(deploymentDuration(run, range.end))}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+function HistoryTable({ deployments }: { deployments: DeploymentHistoryEntry[] }) {
+  return (
+    <table className="history-table">
+      <thead>
+        <tr>
+          <th>Build</th>
+          <th>Result</th>
+          <th>Started</th>
+          <th>Finished</th>
+          <th>Duration</th>
+        </tr>
+      </thead>
+      <tbody>
+        {deployments.map(run => (
+          <tr key={run.buildId + '@' + run.startTime} className={`history-row-${run.result}`}>
+            <td><RunLink run={run} /></td>
+            <td>{run.result}</td>
+            <td>{formatDateTime(run.startTime)}</td>
+            <td>{run.finishTime ? formatDateTime(run.finishTime) : '-'}</td>
+            <td>{formatDuration(deploymentDuration(run))}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Recent deployments of every stage of a train on a shared time axis - is a stage stuck, or rolling normally?
+function HistoryView({ pat, trains }: HistoryViewProps) {
+  const [trainId, setTrainId] = useState(trains[0]?.id);
+  const [days, setDays] = useState(7);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<EnvironmentHistory[]>([]);
+  const [range, setRange] = useState<TimeRange | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pat.trim()) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const now = Date.now();
+      setHistory(await getTrainDeploymentHistory(pat.trim(), days, { trains, trainId }));
+      setRange({ start: now - days * DAY_MS, end: now });
+      setExpanded(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // One tick per day of the loaded range
+  const ticks = range ? Array.from({ length: Math.round((range.end - range.start) / DAY_MS) + 1 }, (_, i) => range.start + i * DAY_MS) : [];
+
+  const renderLane = (stage: EnvironmentHistory, nested: boolean) => {
+    // Grouped stages summarize all their regions' runs
+    const deployments = stage.regions
+      ? stage.regions.flatMap(r => r.deployments).sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+      : stage.deployments;
+    const summary = summarizeHistory(deployments);
+    const key = stage.environment.name;
+
+    return (
+      <div key={key} className={`history-stage ${nested ? 'history-region' : ''}`}>
+        <div className="history-stage-header">
+          <button type="button" className="link-button history-stage-name" onClick={() => setExpanded(expanded === key ? null : key)}>
+            {expanded === key ? '▾' : '▸'} {stage.environment.displayName}
+          </button>
+          <span className={`history-health history-health-${summary.health}`}>{HEALTH_LABELS[summary.health]}</span>
+          <span className="history-summary">
+            {deployments.length} run{deployments.length === 1 ? '' : 's'}
+            {summary.failures > 0 && ' · ' + summary.failures + ' failed'}
+            {summary.medianDuration !== undefined && ' · usually ' + formatDuration(summary.medianDuration)}
+            {summary.lastSuccess && ' · last success ' + formatDateTime(summary.lastSuccess.finishTime || summary.lastSuccess.startTime)}
+          </span>
+        </div>
+        {stage.error && <div className="history-error">⚠️ {describeError(stage.error)}</div>}
+        {range && !stage.regions && <TimelineTrack deployments={stage.deployments} range={range} />}
+        {stage.regions?.map(region => renderLane(region, true))}
+        {expanded === key && deployments.length > 0 && <HistoryTable deployments={deployments} />}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <form onSubmit={handleSubmit} className="input-form">
+        <div className="history-controls">
+          <div className="input-group">
+            <label htmlFor="historyTrain">Train</label>
+            <select id="historyTrain" value={trainId} onChange={(e) => setTrainId(e.target.value)} disabled={loading}>
+              {trains.map(train => <option key={train.id} value={train.id}>{train.name}</option>)}
+            </select>
+          </div>
+          <div className="input-group">
+            <label htmlFor="historyDays">Last</label>
+            <select id="historyDays" value={days} onChange={(e) => setDays(parseInt(e.target.value, 10))} disabled={loading}>
+              {RANGE_OPTIONS.map(option => <option key={option} value={option}>{option} days</option>)}
+            </select>
+          </div>
+        </div>
+        {!pat.trim() && <p className="pat-hint">Add a PAT or sign in above to load deployment history.</p>}
+        <button type="submit" disabled={loading || !pat.trim()}>
+          {loading ? 'Loading...' : 'Show Deployments'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="error-box">
+          <span>⚠️</span> {error}
+        </div>
+      )}
+
+      {range && history.length > 0 && (
+        <div className="environments history">
+          <h3>Deployments since {formatShortDate(new Date(range.start).toISOString())}</h3>
+          <div className="history-axis">
+            {ticks.map(tick => (
+              <span key={tick} style={{ left: ((tick - range.start) / (range.end - range.start)) * 100 + '%' }}>
+                {formatShortDate(new Date(tick).toISOString())}
+              </span>
+            ))}
+          </div>
+          {history.map(stage => renderLane(stage, false))}
+          <div className="legend">
+            <div className="legend-item"><span className="legend-dot history-run-succeeded"></span><span>Succeeded</span></div>
+            <div className="legend-item"><span className="legend-dot history-run-in-progress"></span><span>In progress</span></div>
+            <div className="legend-item"><span className="legend-dot history-run-failed"></span><span>Failed</span></div>
+            <div className="legend-item"><span className="legend-dot history-run-canceled"></span><span>Canceled / other</span></div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default HistoryView;
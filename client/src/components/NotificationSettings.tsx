@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { createSink, createTestEvent, sendToSink, SINK_KINDS } from '../services/notificationService';
+import { NotificationSink, NotificationSinkKind } from '../types';
+
+interface NotificationSettingsProps {
+  sinks: NotificationSink[];
+  onAdd: (sink: NotificationSink) => void;
+  onUpdate: (sink: NotificationSink) => void;
+  onRemove: (sinkId: string) => void;
+}
+
+// Outgoing channels (webhook, Teams, Slack) that watched PRs can post their events to
+function NotificationSettings({ sinks, onAdd, onUpdate, onRemove }: NotificationSettingsProps) {
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<NotificationSinkKind>('teams');
+  const [url, setUrl] = useState('');
+  const [testStatus, setTestStatus] = useState<Record<string, string>>({});
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+    onAdd(createSink(name.trim(), kind, url.trim()));
+    setName('');
+    setUrl('');
+  };
+
+  const handleTest = async (sink: NotificationSink) => {
+    setTestStatus(prev => ({ ...prev, [sink.id]: 'Sending...' }));
+    try {
+      await sendToSink(sink, createTestEvent());
+      setTestStatus(prev => ({ ...prev, [sink.id]: sink.kind === 'webhook' ? 'Delivered' : 'Sent' }));
+    } catch (err) {
+      setTestStatus(prev => ({ ...prev, [sink.id]: err instanceof Error ? err.message : 'Failed' }));
+    }
+  };
+
+  return (
+    <div className="sink-settings">
+      {sinks.map(sink => (
+        <div key={sink.id} className="sink-row">
+          <label className="sink-enabled">
+            <input type="checkbox" checked={sink.enabled} onChange={() => onUpdate({ ...sink, enabled: !sink.enabled })} />
+            {sink.name}
+          </label>
+          <span className="sink-kind">{SINK_KINDS.find(k => k.kind === sink.kind)?.label}</span>
+          <span className="sink-url" title={sink.url}>{sink.url}</span>
+          {testStatus[sink.id] && <span className="sink-test-status">{testStatus[sink.id]}</span>}
+          <button type="button" className="link-button" onClick={() => handleTest(sink)}>Test</button>
+          <button type="button" className="link-button" onClick={() => onRemove(sink.id)}>Remove</button>
+        </div>
+      ))}
+
+      <form className="sink-form" onSubmit={handleAdd}>
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (e.g. Team channel)" />
+        <select value={kind} onChange={(e) => setKind(e.target.value as NotificationSinkKind)}>
+          {SINK_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+        </select>
+        <input type="url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="Webhook URL" />
+        <button type="submit" className="link-button" disabled={!url.trim()}>Add channel</button>
+      </form>
+    </div>
+  );
+}
+
+export default NotificationSettings;
@@ -0,0 +1,94 @@
+import { describeError } from '../utils/status';
+import { formatDateTime } from '../utils/format';
+import { PolicyStatus, PreMergeStatus, ReviewerVote } from '../types';
+
+interface PreMergePanelProps {
+  preMerge: PreMergeStatus;
+}
+
+const VOTE_LABELS: Record<ReviewerVote, { icon: string; label: string }> = {
+  'approved': { icon: '✓', label: 'Approved' },
+  'approved-with-suggestions': { icon: '✓', label: 'Approved with suggestions' },
+  'no-vote': { icon: '○', label: 'No vote' },
+  'waiting-for-author': { icon: '⏸', label: 'Waiting for author' },
+  'rejected': { icon: '✗', label: 'Rejected' },
+};
+
+const POLICY_ICONS: Record<PolicyStatus, string> = {
+  'approved': '✓',
+  'rejected': '✗',
+  'running': '◐',
+  'queued': '○',
+  'not-applicable': '–',
+  'broken': '⚠',
+};
+
+// Active PR: what stands between it and the train, and which cut a merge right now would make
+function PreMergePanel({ preMerge }: PreMergePanelProps) {
+  const blocking = preMerge.policies.filter(p => p.blocking);
+  const passing = blocking.filter(p => p.status === 'approved' || p.status === 'not-applicable').length;
+
+  return (
+    <div className="pre-merge">
+      <div className="pre-merge-title">
+        Before merge
+        {preMerge.isDraft && <span className="pre-merge-badge">Draft</span>}
+        {preMerge.mergeStatus && preMerge.mergeStatus !== 'succeeded' && preMerge.mergeStatus !== 'queued' && (
+          <span className="pre-merge-badge pre-merge-badge-problem">Merge {preMerge.mergeStatus}</span>
+        )}
+      </div>
+
+      {preMerge.nextCut && (
+        <p className="pre-merge-cut">
+          🚉 If merged now, it catches the <strong>{preMerge.nextCut.environment}</strong> cut around{' '}
+          <strong>{formatDateTime(preMerge.nextCut.expected)}</strong> - projected dates per stage are shown below.
+        </p>
+      )}
+
+      <div className="pre-merge-columns">
+        <div>
+          <div className="pre-merge-heading">Reviewers</div>
+          {preMerge.reviewers.length === 0 ? (
+            <p className="pre-merge-empty">No reviewers yet</p>
+          ) : (
+            <ul className="pre-merge-list">
+              {preMerge.reviewers.map(reviewer => (
+                <li key={reviewer.name} className={`vote-${reviewer.vote}`} title={VOTE_LABELS[reviewer.vote].label}>
+                  <span className="pre-merge-icon">{VOTE_LABELS[reviewer.vote].icon}</span>
+                  {reviewer.name}
+                  {reviewer.required && <span className="pre-merge-note">required</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <div className="pre-merge-heading">
+            Policies
+            {blocking.length > 0 && <span className="pre-merge-note">{passing}/{blocking.length} required passing</span>}
+          </div>
+          {preMerge.policyError ? (
+            <p className="pre-merge-empty">⚠️ {describeError(preMerge.policyError)}</p>
+          ) : preMerge.policies.length === 0 ? (
+            <p className="pre-merge-empty">No branch policies</p>
+          ) : (
+            <ul className="pre-merge-list">
+              {preMerge.policies.map((policy, index) => (
+                <li key={policy.name + index} className={`policy-${policy.status}`} title={policy.status}>
+                  <span className="pre-merge-icon">{POLICY_ICONS[policy.status]}</span>
+                  {policy.url
+                    ? <a href={policy.url} target="_blank" rel="noopener noreferrer">{policy.name}</a>
+                    : policy.name}
+                  {!policy.blocking && <span className="pre-merge-note">optional</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PreMergePanel;
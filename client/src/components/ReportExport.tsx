@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { downloadReport, formatMarkdown } from '../services/exportService';
+import { PRDeploymentResult } from '../types';
+
+interface ReportExportProps {
+  results: PRDeploymentResult[];
+  fileName: string;        // Without extension
+}
+
+// Copy as Markdown for release threads, or save as Markdown / CSV / JSON
+function ReportExport({ results, fileName }: ReportExportProps) {
+  const [note, setNote] = useState<string | null>(null);
+
+  const flash = (text: string) => {
+    setNote(text);
+    setTimeout(() => setNote(null), 2000);
+  };
+
+  const copyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(formatMarkdown(results));
+      flash('Copied Markdown');
+    } catch {
+      flash('Could not copy to the clipboard');
+    }
+  };
+
+  if (results.length === 0) return null;
+
+  return (
+    <div className="share-actions report-export">
+      <button type="button" className="link-button" onClick={copyMarkdown} title="Stage table for chat, ADO or GitHub">
+        📋 Copy Markdown
+      </button>
+      <span className="report-export-label">Export:</span>
+      <button type="button" className="link-button" onClick={() => downloadReport(results, 'markdown', fileName)}>Markdown</button>
+      <button type="button" className="link-button" onClick={() => downloadReport(results, 'csv', fileName)}>CSV</button>
+      <button type="button" className="link-button" onClick={() => downloadReport(results, 'json', fileName)}>JSON</button>
+      {note && <span className="share-copied">{note}</span>}
+    </div>
+  );
+}
+
+export default ReportExport;
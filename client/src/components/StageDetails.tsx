@@ -0,0 +1,181 @@
+import { describeError, getStatusColor, getStatusIcon } from '../utils/status';
+import { describeEta, formatDateTime, formatDuration } from '../utils/format';
+import { DeploymentRun, EnvironmentConfig, EnvironmentDeploymentStatus } from '../types';
+
+interface StageDetailsProps {
+  environment: EnvironmentConfig;
+  data: EnvironmentDeploymentStatus | null;
+  origin?: { label: string; time: string }; // When the change landed (PR merge, commit, build) - elapsed times count from here
+  onClose: () => void;
+}
+
+function RunLink({ run }: { run: DeploymentRun }) {
+  return run.url
+    ? <a href={run.url} target="_blank" rel="noopener noreferrer">{run.buildNumber}</a>
+    : <>{run.buildNumber}</>;
+}
+
+// Details for the selected pipeline stage: first build with the change, timings, latest activity, regions
+function StageDetails({ environment, data, origin, onClose }: StageDetailsProps) {
+  const now = Date.now();
+  const included = data?.status === 'included' && !!data.buildTimestamp;
+
+  return (
+    <div className="stage-details">
+      <div className="stage-details-title">
+        {environment.displayName}
+        {data?.coverage && <span className={`coverage coverage-${data.coverage}`}>{data.coverage}</span>}
+        <button type="button" className="link-button stage-details-close" onClick={onClose}>Close</button>
+      </div>
+
+      {!data ? (
+        <p className="stage-details-empty">Check a PR, commit or build to see this stage's details.</p>
+      ) : (
+        <dl className="stage-details-grid">
+          <dt>Status</dt>
+          <dd>{data.status}</dd>
+
+          {data.error && (
+            <>
+              <dt>Failed call</dt>
+              <dd className="stage-details-error">
+                <span className={`error-kind error-kind-${data.error.kind}`}>{data.error.kind}</span>{' '}
+                {describeError(data.error)}
+                {data.error.kind === 'throttled' && data.error.retryAfter !== undefined && ' - try again in ' + data.error.retryAfter + 's'}
+              </dd>
+            </>
+          )}
+
+          {data.buildNumber && (
+            <>
+              <dt>{data.via ? 'Build with the cherry-pick' : 'First build with the change'}</dt>
+              <dd>
+                {data.buildUrl
+                  ? <a href={data.buildUrl} target="_blank" rel="noopener noreferrer">{data.buildNumber}</a>
+                  : data.buildNumber}
+              </dd>
+            </>
+          )}
+
+          {included && (
+            <>
+              <dt>Landed</dt>
+              <dd>{formatDateTime(data.buildTimestamp!)}</dd>
+            </>
+          )}
+
+          {data.via && (
+            <>
+              <dt>Included via</dt>
+              <dd>
+                cherry-pick{' '}
+                {data.via.url
+                  ? <a href={data.via.url} target="_blank" rel="noopener noreferrer"><code>{data.via.commitId.substring(0, 8)}</code></a>
+                  : <code>{data.via.commitId.substring(0, 8)}</code>}
+                {data.via.pullRequestId !== undefined && ' (PR #' + data.via.pullRequestId + ')'}
+                {' on ' + data.via.branch.replace(/^refs\/heads\//, '')}
+              </dd>
+            </>
+          )}
+
+          {data.reverted && (
+            <>
+              <dt>Reverted</dt>
+              <dd>The live build also contains the PR's revert - the change is no longer active here</dd>
+            </>
+          )}
+
+          {data.status === 'rolled-back' && data.rollback && (
+            <>
+              <dt>Rolled back</dt>
+              <dd>
+                {formatDateTime(data.rollback.finishTime || data.rollback.startTime) + ' to '}
+                <RunLink run={data.rollback} />
+                {' - the change is no longer live here'}
+              </dd>
+            </>
+          )}
+
+          {origin && (
+            <>
+              <dt>{included ? 'Took since ' + origin.label : 'Waiting since ' + origin.label}</dt>
+              <dd>
+                {formatDuration((included ? new Date(data.buildTimestamp!).getTime() : now) - new Date(origin.time).getTime())}
+              </dd>
+            </>
+          )}
+
+          {data.eta && (
+            <>
+              <dt>Expected</dt>
+              <dd>{describeEta(data.eta)}</dd>
+            </>
+          )}
+
+          {data.lastDeployment && (
+            <>
+              <dt>Last deployed build</dt>
+              <dd>
+                <RunLink run={data.lastDeployment} />
+                {' · ' + formatDateTime(data.lastDeployment.finishTime || data.lastDeployment.startTime)}
+              </dd>
+            </>
+          )}
+
+          {data.failedDeployment && (
+            <>
+              <dt>Last deployment failed</dt>
+              <dd>
+                <RunLink run={data.failedDeployment} />
+                {' · ' + formatDateTime(data.failedDeployment.finishTime || data.failedDeployment.startTime)}
+              </dd>
+            </>
+          )}
+
+          {data.inProgressDeployment && (
+            <>
+              <dt>Deploying now</dt>
+              <dd>
+                <RunLink run={data.inProgressDeployment} />
+                {' · started ' + formatDuration(now - new Date(data.inProgressDeployment.startTime).getTime()) + ' ago'}
+              </dd>
+            </>
+          )}
+        </dl>
+      )}
+
+      {environment.regions && (
+        <div className="stage-details-regions">
+          {environment.regions.map((region) => {
+            const regionData = data?.regions?.find(r => r.environment.name === region.name) || null;
+            const run = regionData?.inProgressDeployment || regionData?.lastDeployment;
+            return (
+              <div key={region.name} className="region-row">
+                <div className={`env-node region-node ${regionData ? getStatusColor(regionData.status) : 'status-pending'}`}>
+                  <span className="env-icon">{regionData ? getStatusIcon(regionData.status) : '○'}</span>
+                </div>
+                <span className="region-name">{region.displayName}</span>
+                <span className="region-status" title={regionData?.error ? describeError(regionData.error) : undefined}>
+                  {regionData?.error && '⚠️ '}
+                  {regionData?.status === 'included' && regionData.buildNumber
+                    ? regionData.buildNumber + (regionData.buildTimestamp ? ' · ' + formatDateTime(regionData.buildTimestamp) : '')
+                    : regionData?.status === 'rolled-back' && regionData.rollback
+                      ? 'rolled back ' + formatDateTime(regionData.rollback.finishTime || regionData.rollback.startTime)
+                      : regionData?.status || 'pending'}
+                </span>
+                {run && (
+                  <span className="region-run">
+                    {regionData?.inProgressDeployment ? 'deploying ' : 'last '}
+                    <RunLink run={run} />
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StageDetails;
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import NotificationSettings from './NotificationSettings';
+import { getStatusColor, getStatusIcon } from '../utils/status';
+import { formatDateTime } from '../utils/format';
+import { describeWatchEvent } from '../services/watchService';
+import { NotificationSink, WatchedPR, WatchEvent } from '../types';
+
+interface WatchPanelProps {
+  watches: WatchedPR[];
+  events: WatchEvent[];
+  sinks: NotificationSink[];
+  onOpen: (prUrl: string) => void;
+  onRemove: (prUrl: string) => void;
+  onToggleSubscription: (prUrl: string, sinkId: string) => void;
+  onCheckNow: () => void;
+  onClearEvents: () => void;
+  onAddSink: (sink: NotificationSink) => void;
+  onUpdateSink: (sink: NotificationSink) => void;
+  onRemoveSink: (sinkId: string) => void;
+}
+
+// Watched PRs with their last seen stages and channel subscriptions, plus the timeline of what changed
+function WatchPanel(props: WatchPanelProps) {
+  const { watches, events, sinks, onOpen, onRemove, onToggleSubscription, onCheckNow, onClearEvents } = props;
+  const [showChannels, setShowChannels] = useState(false);
+  if (watches.length === 0 && events.length === 0) return null;
+
+  return (
+    <div className="watch-panel">
+      <div className="watch-header">
+        <h3>Watching ({watches.length})</h3>
+        <div className="watch-actions">
+          <button type="button" className="link-button" onClick={() => setShowChannels(!showChannels)}>
+            {showChannels ? 'Hide channels' : 'Channels (' + sinks.length + ')'}
+          </button>
+          {watches.length > 0 && (
+            <button type="button" className="link-button" onClick={onCheckNow}>Check now</button>
+          )}
+        </div>
+      </div>
+
+      {showChannels && (
+        <NotificationSettings sinks={sinks} onAdd={props.onAddSink} onUpdate={props.onUpdateSink} onRemove={props.onRemoveSink} />
+      )}
+
+      {watches.map(watch => (
+        <div key={watch.prUrl} className="watch-row">
+          <button type="button" className="link-button watch-title" onClick={() => onOpen(watch.prUrl)} title={watch.prUrl}>
+            {watch.title}
+          </button>
+          <div className="watch-stages">
+            {watch.stages.filter(stage => !stage.group).map(stage => (
+              <span
+                key={stage.name}
+                className={`env-node batch-node ${getStatusColor(stage.status)}`}
+                title={stage.name + ': ' + stage.status}
+              >
+                <span className="env-icon">{getStatusIcon(stage.status)}</span>
+              </span>
+            ))}
+          </div>
+          {sinks.length > 0 && (
+            <div className="watch-sinks">
+              {sinks.map(sink => (
+                <button
+                  key={sink.id}
+                  type="button"
+                  className={`sink-chip ${watch.sinkIds?.includes(sink.id) ? 'active' : ''}`}
+                  onClick={() => onToggleSubscription(watch.prUrl, sink.id)}
+                  title={(watch.sinkIds?.includes(sink.id) ? 'Posting to ' : 'Not posting to ') + sink.name}
+                >
+                  {sink.name}
+                </button>
+              ))}
+            </div>
+          )}
+          <span className="watch-next" title={watch.lastError}>
+            {(watch.lastError ? '⚠️ ' : '') + (watch.completed ? 'Everywhere - rollback check ' : 'next check ')
+              + formatDateTime(watch.nextCheckAt)}
+          </span>
+          <button type="button" className="link-button" onClick={() => onRemove(watch.prUrl)}>Unwatch</button>
+        </div>
+      ))}
+
+      {events.length > 0 && (
+        <div className="watch-timeline">
+          <div className="watch-header">
+            <h4>Timeline</h4>
+            <button type="button" className="link-button" onClick={onClearEvents}>Clear</button>
+          </div>
+          {events.map(event => (
+            <div key={event.id} className={`watch-event watch-event-${event.kind}`}>
+              <span className="watch-event-time">{formatDateTime(event.at)}</span>
+              <span>
+                {event.url
+                  ? <a href={event.url} target="_blank" rel="noopener noreferrer">{describeWatchEvent(event)}</a>
+                  : describeWatchEvent(event)}
+              </span>
+              <span className="watch-event-pr">{event.prTitle}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WatchPanel;
@@ -0,0 +1,28 @@
+// CORE - The runtime-agnostic tracker: ADO checks, train definitions, watch diffing and the deployment gate, shared by the web app and the CLI
+// Nothing exported here touches the DOM or browser storage; the persistent cache defaults to IndexedDB and is swapped with setCacheStore elsewhere
+
+export {
+  parsePRUrl,
+  parseLookupInput,
+  parseRepoUrl,
+  createCheckContext,
+  verifyToken,
+  checkPRDeploymentStatus,
+  checkPRDeploymentStatusBatch,
+  listMyCompletedPRs,
+  checkCommitDeploymentStatus,
+  checkBuildDeployments,
+  checkWorkItemDeploymentStatus,
+} from '../services/adoService';
+export type { CheckContext, CheckOptions } from '../services/adoService';
+export { AdoError, adoUrl, configureAdo, isPermanentError, resetAdo, toErrorInfo } from '../services/adoHttp';
+export type { AdoTransport } from '../services/adoHttp';
+export { DEFAULT_TRAINS, parseTrainDefinitions, findTrainsForRepository } from '../services/trainService';
+export { CACHE_TTL, setCacheStore } from '../services/cacheService';
+export type { CacheEntry, CacheStore } from '../services/cacheService';
+export { WATCH_BACKOFF, createWatch, applyWatchResult, applyWatchError, describeWatchEvent } from '../services/watchService';
+export { GATE_DEFAULTS, findStage, stageNames, waitUntilIncluded } from '../services/gateService';
+export type { GateOptions } from '../services/gateService';
+export { formatCsv, formatMarkdown, formatReport, toDeploymentReport } from '../services/exportService';
+export type { ExportFormat } from '../services/exportService';
+export * from '../types';
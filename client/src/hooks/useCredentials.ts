@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { verifyToken } from '../services/adoService';
+import {
+  forgetCredential,
+  hasEncryptedCredential,
+  loadSessionCredential,
+  storeCredential,
+  takeLegacyPat,
+  unlockCredential,
+} from '../services/credentialService';
+import { restoreEntraSession, signInWithEntra, signOutEntra } from '../services/entraService';
+import { Credential, CredentialStorage, TokenVerification } from '../types';
+
+// Refresh Entra tokens this long before they expire
+const REFRESH_MARGIN = 5 * 60 * 1000;
+
+function initialCredential(): { credential: Credential | null; storage: CredentialStorage } {
+  const legacyPat = takeLegacyPat();
+  if (legacyPat) return { credential: { kind: 'pat', token: legacyPat }, storage: 'session' };
+  const session = loadSessionCredential();
+  return { credential: session, storage: session ? 'session' : 'memory' };
+}
+
+// The active ADO credential, where it is kept, and whether ADO accepts it with every scope we need
+export function useCredentials() {
+  const [initial] = useState(initialCredential);
+  const [credential, setCredential] = useState<Credential | null>(initial.credential);
+  const [storage, setStorage] = useState<CredentialStorage>(initial.storage);
+  const [locked, setLocked] = useState(() => !initial.credential && hasEncryptedCredential());
+  const [verification, setVerification] = useState<TokenVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  // Pick up an existing Entra sign-in on startup
+  useEffect(() => {
+    if (credential || locked) return;
+    restoreEntraSession().then(restored => {
+      if (restored) setCredential(current => current || restored);
+    });
+  }, []);
+
+  // Verify every new token against ADO: validity, expiry and scopes
+  useEffect(() => {
+    if (!credential) {
+      setVerification(null);
+      return;
+    }
+    let cancelled = false;
+    setVerifying(true);
+    verifyToken(credential.token)
+      .then(result => { if (!cancelled) setVerification(result); })
+      .finally(() => { if (!cancelled) setVerifying(false); });
+    return () => { cancelled = true; };
+  }, [credential?.token]);
+
+  // Entra tokens live about an hour - renew silently before the watch list starts failing
+  useEffect(() => {
+    if (credential?.kind !== 'entra' || !credential.expiresOn) return;
+    const delay = Math.max(0, new Date(credential.expiresOn).getTime() - Date.now() - REFRESH_MARGIN);
+    const timer = setTimeout(() => {
+      restoreEntraSession().then(renewed => { if (renewed) setCredential(renewed); });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [credential]);
+
+  const applyPat = async (token: string, nextStorage: CredentialStorage, passphrase?: string) => {
+    const next: Credential = { kind: 'pat', token: token.trim() };
+    await storeCredential(next, nextStorage, passphrase);
+    setCredential(next);
+    setStorage(nextStorage);
+    setLocked(false);
+  };
+
+  const unlock = async (passphrase: string) => {
+    setCredential(await unlockCredential(passphrase));
+    setStorage('encrypted');
+    setLocked(false);
+  };
+
+  const signIn = async () => {
+    forgetCredential();
+    setCredential(await signInWithEntra());
+    setStorage('memory');
+    setLocked(false);
+  };
+
+  const signOut = async () => {
+    const wasEntra = credential?.kind === 'entra';
+    forgetCredential();
+    setCredential(null);
+    setStorage('memory');
+    setLocked(false);
+    if (wasEntra) await signOutEntra();
+  };
+
+  return {
+    credential,
+    token: credential?.token || '',
+    storage,
+    locked,
+    verification,
+    verifying,
+    applyPat,
+    unlock,
+    signIn,
+    signOut,
+  };
+}
+
+export type CredentialsState = ReturnType<typeof useCredentials>;
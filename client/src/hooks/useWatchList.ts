@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { checkPRDeploymentStatus, createCheckContext } from '../services/adoService';
+import {
+  applyWatchError,
+  applyWatchResult,
+  createWatch,
+  loadWatchEvents,
+  loadWatches,
+  MAX_WATCH_EVENTS,
+  notifyWatchEvent,
+  requestNotificationPermission,
+  saveWatchEvents,
+  saveWatches,
+} from '../services/watchService';
+import { dispatchWatchEvents, loadSinks, saveSinks } from '../services/notificationService';
+import { NotificationSink, PRDeploymentResult, TrainDefinition, WatchedPR, WatchEvent } from '../types';
+
+// How often due watches are looked for - each watch keeps its own backoff interval
+const WATCH_TICK = 30 * 1000;
+
+// Watch list state, notification sinks and the background poller - lives in App so it keeps running in both modes
+export function useWatchList(pat: string, trains: TrainDefinition[]) {
+  const [watches, setWatches] = useState<WatchedPR[]>(loadWatches);
+  const [events, setEvents] = useState<WatchEvent[]>(loadWatchEvents);
+  const [sinks, setSinks] = useState<NotificationSink[]>(loadSinks);
+  const watchesRef = useRef(watches);
+  const sinksRef = useRef(sinks);
+  const polling = useRef(false);
+  watchesRef.current = watches;
+  sinksRef.current = sinks;
+
+  useEffect(() => saveWatches(watches), [watches]);
+  useEffect(() => saveWatchEvents(events), [events]);
+  useEffect(() => saveSinks(sinks), [sinks]);
+
+  const poll = useCallback(async (force = false) => {
+    if (polling.current || !pat.trim()) return;
+    polling.current = true;
+
+    try {
+      const now = Date.now();
+      const due = watchesRef.current.filter(w => force || new Date(w.nextCheckAt).getTime() <= now);
+      const context = createCheckContext(); // Watched PRs often share builds
+
+      for (const watch of due) {
+        let updated: WatchedPR;
+        let newEvents: WatchEvent[] = [];
+        try {
+          const result = await checkPRDeploymentStatus(watch.prUrl, pat.trim(), { trains, trainId: watch.trainId, context });
+          ({ watch: updated, events: newEvents } = applyWatchResult(watch, result));
+        } catch (err) {
+          updated = applyWatchError(watch, err instanceof Error ? err.message : 'Check failed');
+        }
+
+        // Subscriptions may have changed while the check ran - keep the latest ones
+        const latest = watchesRef.current.find(w => w.prUrl === watch.prUrl);
+        newEvents.forEach(notifyWatchEvent);
+        if (newEvents.length > 0) dispatchWatchEvents(newEvents, sinksRef.current, latest?.sinkIds);
+        setWatches(prev => prev.map(w => (w.prUrl === watch.prUrl ? { ...updated, sinkIds: w.sinkIds } : w)));
+        if (newEvents.length > 0) setEvents(prev => [...newEvents.reverse(), ...prev].slice(0, MAX_WATCH_EVENTS));
+      }
+    } finally {
+      polling.current = false;
+    }
+  }, [pat, trains]);
+
+  useEffect(() => {
+    poll();
+    const timer = setInterval(() => poll(), WATCH_TICK);
+    return () => clearInterval(timer);
+  }, [poll]);
+
+  // New watches post to every enabled sink until unsubscribed
+  const addWatch = (prUrl: string, result?: PRDeploymentResult, trainId?: string) => {
+    requestNotificationPermission();
+    const watch = { ...createWatch(prUrl, result, trainId), sinkIds: sinks.filter(s => s.enabled).map(s => s.id) };
+    setWatches(prev => (prev.some(w => w.prUrl === prUrl) ? prev : [...prev, watch]));
+  };
+
+  const removeWatch = (prUrl: string) => setWatches(prev => prev.filter(w => w.prUrl !== prUrl));
+
+  const toggleSubscription = (prUrl: string, sinkId: string) => setWatches(prev => prev.map(w => {
+    if (w.prUrl !== prUrl) return w;
+    const sinkIds = w.sinkIds || [];
+    return { ...w, sinkIds: sinkIds.includes(sinkId) ? sinkIds.filter(id => id !== sinkId) : [...sinkIds, sinkId] };
+  }));
+
+  const addSink = (sink: NotificationSink) => setSinks(prev => [...prev, sink]);
+  const updateSink = (sink: NotificationSink) => setSinks(prev => prev.map(s => (s.id === sink.id ? sink : s)));
+  const removeSink = (sinkId: string) => {
+    setSinks(prev => prev.filter(s => s.id !== sinkId));
+    setWatches(prev => prev.map(w => ({ ...w, sinkIds: (w.sinkIds || []).filter(id => id !== sinkId) })));
+  };
+
+  return {
+    watches,
+    events,
+    addWatch,
+    removeWatch,
+    toggleSubscription,
+    sinks,
+    addSink,
+    updateSink,
+    removeSink,
+    clearEvents: () => setEvents([]),
+    checkNow: () => poll(true),
+  };
+}
@@ -0,0 +1,276 @@
+// MOCK ADO SERVER - Local stand-in for the Azure DevOps endpoints the tracker calls, serving one fixture scenario
+// Point the app at it with configureAdo({ baseUrl: server.url }) (tests) or ADO_BASE_URL (CLI)
+
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export interface MockPullRequest {
+  id: number;
+  title: string;
+  status: 'active' | 'completed' | 'abandoned';
+  repository: string;
+  createdBy: string;
+  creationDate: string;
+  closedDate?: string;
+  mergeCommitId?: string;
+}
+
+export interface MockBuild {
+  id: number;
+  buildNumber: string;
+  sourceVersion: string;
+  sourceBranch?: string;   // Default refs/heads/main
+  startTime: string;
+  finishTime?: string;
+}
+
+export interface MockDeployment {
+  environmentId: number;
+  buildId: number;
+  startTime: string;
+  finishTime?: string;     // Unset while the deployment is running
+  result?: 'succeeded' | 'failed' | 'canceled';
+}
+
+// Fail requests whose path contains `path` (every request when unset) - `times` failures, then recover
+export interface MockFailure {
+  path?: string;
+  status: number;
+  retryAfter?: number;     // Seconds, sent as Retry-After
+  times?: number;          // Default: fail forever
+}
+
+export interface AdoScenario {
+  name: string;
+  description: string;
+  commits: string[];       // Linear history of main (the PR's target), oldest first
+  branches?: Record<string, string[]>;  // Other branches by name (e.g. releases/2026.01) - full history, oldest first
+  messages?: Record<string, string>;    // Commit messages by SHA (default "Commit <sha>")
+  pullRequest: MockPullRequest;
+  builds: MockBuild[];
+  deployments: MockDeployment[];
+  environments?: Array<{ id: number; name: string }>;
+  failures?: MockFailure[];
+}
+
+export interface MockAdoServer {
+  url: string;
+  requests: string[];      // Paths (with query) in the order they arrived
+  use(scenario: AdoScenario): void;
+  close(): Promise<void>;
+}
+
+const RECORDS_PAGE_SIZE = 50;
+
+// Ancestors of a commit (itself included), oldest first - from the first branch that has it
+function ancestry(scenario: AdoScenario, commitId: string): string[] {
+  for (const history of [scenario.commits, ...Object.values(scenario.branches || {})]) {
+    const index = history.indexOf(commitId.toLowerCase());
+    if (index >= 0) return history.slice(0, index + 1);
+  }
+  return [];
+}
+
+type Handler = (match: RegExpMatchArray, query: URLSearchParams, scenario: AdoScenario) => { body: unknown; headers?: Record<string, string> } | null;
+
+function buildJson(build: MockBuild, org: string, project: string) {
+  return {
+    id: build.id,
+    buildNumber: build.buildNumber,
+    status: build.finishTime ? 'completed' : 'inProgress',
+    result: build.finishTime ? 'succeeded' : undefined,
+    sourceVersion: build.sourceVersion,
+    sourceBranch: build.sourceBranch || 'refs/heads/main',
+    startTime: build.startTime,
+    finishTime: build.finishTime,
+    _links: { web: { href: 'https://dev.azure.com/' + org + '/' + project + '/_build/results?buildId=' + build.id } },
+  };
+}
+
+// Commit as ADO returns it - match holds org, project and repository
+function commitJson(scenario: AdoScenario, commitId: string, match: RegExpMatchArray) {
+  return {
+    commitId,
+    comment: scenario.messages?.[commitId] || 'Commit ' + commitId.substring(0, 8),
+    author: { name: 'Mock Author', email: 'mock.author@example.com', date: scenario.pullRequest.creationDate },
+    remoteUrl: 'https://dev.azure.com/' + match[1] + '/' + match[2] + '/_git/' + match[3] + '/commit/' + commitId,
+  };
+}
+
+// Routes by path: /{org}/{project}/_apis/...
+const ROUTES: Array<{ pattern: RegExp; handler: Handler }> = [
+  {
+    pattern: /^\/([^/]+)\/([^/]+)\/_apis\/git\/repositories\/([^/]+)\/pullRequests\/(\d+)$/i,
+    handler: (match, _query, scenario) => {
+      const pr = scenario.pullRequest;
+      if (pr.id !== Number(match[4])) return null;
+      return {
+        body: {
+          pullRequestId: pr.id,
+          title: pr.title,
+          description: '',
+          status: pr.status,
+          sourceRefName: 'refs/heads/feature/' + pr.id,
+          targetRefName: 'refs/heads/main',
+          repository: { id: pr.repository + '-id', name: pr.repository, project: { id: match[2] + '-id', name: decodeURIComponent(match[2]) } },
+          createdBy: { displayName: pr.createdBy, uniqueName: pr.createdBy.toLowerCase().replace(/\s+/g, '.') + '@example.com' },
+          creationDate: pr.creationDate,
+          closedDate: pr.closedDate,
+          lastMergeCommit: pr.mergeCommitId ? { commitId: pr.mergeCommitId } : undefined,
+          isDraft: false,
+          reviewers: [],
+          url: '',
+        },
+      };
+    },
+  },
+  {
+    pattern: /^\/([^/]+)\/([^/]+)\/_apis\/git\/repositories\/([^/]+)\/commits\/([0-9a-f]+)\/mergebases$/i,
+    handler: (match, query, scenario) => {
+      // Latest commit both histories share
+      const other = new Set(ancestry(scenario, query.get('otherCommitId') || ''));
+      const base = ancestry(scenario, match[4]).filter(c => other.has(c)).pop();
+      return { body: { count: base ? 1 : 0, value: base ? [{ commitId: base }] : [] } };
+    },
+  },
+  {
+    pattern: /^\/([^/]+)\/([^/]+)\/_apis\/git\/repositories\/([^/]+)\/commits\/([0-9a-f]+)$/i,
+    handler: (match, _query, scenario) => {
+      // Single commit by full or short SHA (commit lookups and gates)
+      const prefix = match[4].toLowerCase();
+      const commitId = [scenario.commits, ...Object.values(scenario.branches || {})].flat().find(c => c.startsWith(prefix));
+      return commitId ? { body: commitJson(scenario, commitId, match) } : null;
+    },
+  },
+  {
+    pattern: /^\/([^/]+)\/([^/]+)\/_apis\/git\/repositories\/([^/]+)\/commits$/i,
+    handler: (match, query, scenario) => {
+      // Branch history, newest first (fromDate is not applied - fixtures only hold recent commits)
+      const branch = query.get('searchCriteria.itemVersion.version') || 'main';
+      const history = branch === 'main' ? scenario.commits : scenario.branches?.[branch];
+      if (!history) return null;
+      const value = [...history].reverse().map(commitId => commitJson(scenario, commitId, match));
+      return { body: { count: value.length, value } };
+    },
+  },
+  {
+    pattern: /^\/([^/]+)\/([^/]+)\/_apis\/build\/builds\/(\d+)$/i,
+    handler: (match, _query, scenario) => {
+      const build = scenario.builds.find(b => b.id === Number(match[3]));
+      return build ? { body: buildJson(build, match[1], match[2]) } : null;
+    },
+  },
+  {
+    pattern: /^\/([^/]+)\/([^/]+)\/_apis\/distributedtask\/environments\/(\d+)\/environmentdeploymentrecords$/i,
+    handler: (match, query, scenario) => {
+      const environmentId = Number(match[3]);
+      const records = scenario.deployments
+        .map((d, index) => ({ ...d, id: index + 1 }))
+        .filter(d => d.environmentId === environmentId)
+        .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+
+      // Continuation token is the offset of the next page
+      const top = Number(query.get('top')) || RECORDS_PAGE_SIZE;
+      const offset = Number(query.get('continuationToken')) || 0;
+      const page = records.slice(offset, offset + top);
+      const headers: Record<string, string> = offset + top < records.length ? { 'x-ms-continuationtoken': String(offset + top) } : {};
+
+      return {
+        headers,
+        body: {
+          count: page.length,
+          value: page.map(d => {
+            const build = scenario.builds.find(b => b.id === d.buildId);
+            return {
+              id: d.id,
+              environmentId,
+              owner: {
+                id: d.buildId,
+                name: build?.buildNumber || String(d.buildId),
+                _links: build ? { web: { href: buildJson(build, match[1], match[2])._links.web.href } } : undefined,
+              },
+              result: d.finishTime ? d.result || 'succeeded' : undefined,
+              queueTime: d.startTime,
+              startTime: d.startTime,
+              finishTime: d.finishTime,
+            };
+          }),
+        },
+      };
+    },
+  },
+  {
+    pattern: /^\/([^/]+)\/([^/]+)\/_apis\/distributedtask\/environments$/i,
+    handler: (_match, _query, scenario) => ({ body: { count: scenario.environments?.length || 0, value: scenario.environments || [] } }),
+  },
+  {
+    pattern: /^\/([^/]+)\/([^/]+)\/_apis\/policy\/evaluations$/i,
+    handler: () => ({ body: { count: 0, value: [] } }),
+  },
+  {
+    pattern: /^\/([^/]+)\/_apis\/connectionData$/i,
+    handler: () => ({ body: { authenticatedUser: { providerDisplayName: 'Mock User' } } }),
+  },
+];
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Start on `port` (0 picks a free one) serving `scenario` until use() swaps it
+export function startMockAdoServer(scenario: AdoScenario, port = 0): Promise<MockAdoServer> {
+  let current = scenario;
+  let failureCounts = new Map<MockFailure, number>();
+  const requests: string[] = [];
+
+  const handle = (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Authorization, Content-Type' }).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(url.pathname + url.search);
+
+    const failure = current.failures?.find(f => (!f.path || url.pathname.includes(f.path))
+      && (f.times === undefined || (failureCounts.get(f) || 0) < f.times));
+    if (failure) {
+      failureCounts.set(failure, (failureCounts.get(failure) || 0) + 1);
+      send(res, failure.status, { message: 'Mock failure (' + failure.status + ')' },
+        failure.retryAfter !== undefined ? { 'Retry-After': String(failure.retryAfter) } : {});
+      return;
+    }
+
+    for (const route of ROUTES) {
+      const match = url.pathname.match(route.pattern);
+      if (!match) continue;
+      const result = route.handler(match, url.searchParams, current);
+      if (result) send(res, 200, result.body, result.headers);
+      else send(res, 404, { message: 'Not found in scenario ' + current.name });
+      return;
+    }
+    send(res, 404, { message: 'No mock route for ' + url.pathname });
+  };
+
+  const server: Server = createServer(handle);
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address() as AddressInfo;
+      resolve({
+        url: 'http://127.0.0.1:' + address.port,
+        requests,
+        use(next: AdoScenario) {
+          current = next;
+          failureCounts = new Map();
+          requests.length = 0;
+        },
+        close: () => new Promise(done => {
+          server.close(() => done());
+          server.closeAllConnections();   // fetch keeps connections alive
+        }),
+      });
+    });
+  });
+}
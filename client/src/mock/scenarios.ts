@@ -0,0 +1,208 @@
+// MOCK SCENARIOS - Fixture histories for the mock ADO server: one merged PR at different points of its rollout
+
+import { TrainDefinition } from '../types';
+import { AdoScenario, MockDeployment } from './adoMockServer';
+
+// Compact train for the fixtures: three single stages and a grouped PROD stage
+export const MOCK_TRAIN: TrainDefinition = {
+  id: 'mock',
+  name: 'Mock',
+  repositoryPattern: '^mockrepo$',
+  project: 'MockProject',
+  repositoryId: 'mockrepo-id',
+  environments: [
+    { id: 1, name: 'Daily', displayName: 'Daily', order: 1 },
+    { id: 2, name: 'MSIT', displayName: 'MSIT', order: 2 },
+    { id: 3, name: 'Canary', displayName: 'Canary', order: 3 },
+    {
+      id: 0, name: 'PROD', displayName: 'PROD', order: 4,
+      regions: [
+        { id: 4, name: 'PROD-America', displayName: 'America', order: 1 },
+        { id: 5, name: 'PROD-Europe', displayName: 'Europe', order: 2 },
+      ],
+    },
+  ],
+};
+
+export const MOCK_PR_URL = 'https://dev.azure.com/mockorg/MockProject/_git/mockrepo/pullrequest/4242';
+
+const DAILY = 1;
+const MSIT = 2;
+const CANARY = 3;
+const PROD_AMERICA = 4;
+const PROD_EUROPE = 5;
+
+// Distinct 40-char SHAs whose short forms differ too
+const sha = (n: number) => (n.toString(16) + 'f00dcafe').repeat(5).substring(0, 40);
+
+// main: base -> PR merge -> two later commits
+const COMMITS = [sha(0xc0), sha(0xc1), sha(0xc2), sha(0xc3)];
+export const MERGE_COMMIT = COMMITS[1];
+
+const PULL_REQUEST = {
+  id: 4242,
+  title: 'Add mock rollout fixtures',
+  status: 'completed' as const,
+  repository: 'mockrepo',
+  createdBy: 'Mock Author',
+  creationDate: '2026-01-02T09:00:00Z',
+  closedDate: '2026-01-05T10:00:00Z',
+  mergeCommitId: MERGE_COMMIT,
+};
+
+// 100 was cut before the merge, 101 and 102 contain it
+const BUILDS = [
+  { id: 100, buildNumber: '20260104.1', sourceVersion: COMMITS[0], startTime: '2026-01-04T02:00:00Z', finishTime: '2026-01-04T03:00:00Z' },
+  { id: 101, buildNumber: '20260106.1', sourceVersion: COMMITS[2], startTime: '2026-01-06T02:00:00Z', finishTime: '2026-01-06T03:00:00Z' },
+  { id: 102, buildNumber: '20260108.1', sourceVersion: COMMITS[3], startTime: '2026-01-08T02:00:00Z', finishTime: '2026-01-08T03:00:00Z' },
+];
+
+// Deployment starting at `start` and taking two hours - 'running' leaves it unfinished
+function deploy(environmentId: number, buildId: number, start: string, result: MockDeployment['result'] | 'running' = 'succeeded'): MockDeployment {
+  const finish = new Date(new Date(start).getTime() + 2 * 60 * 60 * 1000).toISOString();
+  return result === 'running'
+    ? { environmentId, buildId, startTime: start }
+    : { environmentId, buildId, startTime: start, finishTime: finish, result };
+}
+
+// Every stage ran the pre-merge build before the merge
+const BEFORE_MERGE = [DAILY, MSIT, CANARY, PROD_AMERICA, PROD_EUROPE].map(env => deploy(env, 100, '2026-01-04T06:00:00Z'));
+
+const base = { commits: COMMITS, pullRequest: PULL_REQUEST, builds: BUILDS };
+
+// Hotfix: the PR squash-cherry-picked onto a release branch cut from the base commit, built as 200
+const RELEASE_BRANCH = 'releases/2026.01';
+const CHERRY_PICK = sha(0xe1);
+const HOTFIX_BUILD = {
+  id: 200, buildNumber: '20260107.9', sourceVersion: CHERRY_PICK, sourceBranch: 'refs/heads/' + RELEASE_BRANCH,
+  startTime: '2026-01-07T02:00:00Z', finishTime: '2026-01-07T03:00:00Z',
+};
+
+// Unrelated hotfix on the same release branch, built after 101 and 102 - higher id, no PR
+const HOTFIX = sha(0xe2);
+const UNRELATED_HOTFIX_BUILD = {
+  id: 201, buildNumber: '20260108.9', sourceVersion: HOTFIX, sourceBranch: 'refs/heads/' + RELEASE_BRANCH,
+  startTime: '2026-01-08T06:00:00Z', finishTime: '2026-01-08T07:00:00Z',
+};
+
+// Revert of the PR merged on main after 101 was cut, built as 103
+const REVERT = sha(0xd1);
+const REVERT_BUILD = { id: 103, buildNumber: '20260109.1', sourceVersion: REVERT, startTime: '2026-01-09T02:00:00Z', finishTime: '2026-01-09T03:00:00Z' };
+
+export const SCENARIOS: Record<string, AdoScenario> = {
+  'merged-in-prod': {
+    ...base,
+    name: 'merged-in-prod',
+    description: 'Merged PR that rolled through every stage: 101 reached Daily to Canary, PROD regions a day apart',
+    deployments: [
+      ...BEFORE_MERGE,
+      deploy(DAILY, 101, '2026-01-06T04:00:00Z'),
+      deploy(DAILY, 102, '2026-01-08T04:00:00Z'),
+      deploy(MSIT, 101, '2026-01-07T04:00:00Z'),
+      deploy(CANARY, 101, '2026-01-08T04:00:00Z'),
+      deploy(PROD_AMERICA, 101, '2026-01-09T04:00:00Z'),
+      deploy(PROD_EUROPE, 101, '2026-01-10T04:00:00Z'),
+    ],
+  },
+  'stuck-in-canary': {
+    ...base,
+    name: 'stuck-in-canary',
+    description: 'Reached MSIT, but the Canary deployment of 101 failed - Canary and PROD still run the pre-merge build',
+    deployments: [
+      ...BEFORE_MERGE,
+      deploy(DAILY, 101, '2026-01-06T04:00:00Z'),
+      deploy(MSIT, 101, '2026-01-07T04:00:00Z'),
+      deploy(CANARY, 101, '2026-01-08T04:00:00Z', 'failed'),
+    ],
+  },
+  'in-progress': {
+    ...base,
+    name: 'in-progress',
+    description: 'Merged a moment ago - the first build containing it is deploying to Daily',
+    deployments: [
+      ...BEFORE_MERGE,
+      deploy(DAILY, 101, '2026-01-06T04:00:00Z', 'running'),
+    ],
+  },
+  'rolled-back': {
+    ...base,
+    name: 'rolled-back',
+    description: 'Reached Canary, then Canary was rolled back to the pre-merge build a day later',
+    deployments: [
+      ...BEFORE_MERGE,
+      deploy(DAILY, 101, '2026-01-06T04:00:00Z'),
+      deploy(MSIT, 101, '2026-01-07T04:00:00Z'),
+      deploy(CANARY, 101, '2026-01-08T04:00:00Z'),
+      deploy(CANARY, 100, '2026-01-09T04:00:00Z'),
+    ],
+  },
+  'cherry-picked': {
+    ...base,
+    name: 'cherry-picked',
+    description: 'Rolled to MSIT from main; Canary and PROD got it as a hotfix cherry-picked onto ' + RELEASE_BRANCH,
+    branches: { [RELEASE_BRANCH]: [COMMITS[0], CHERRY_PICK] },
+    messages: { [MERGE_COMMIT]: 'Merged PR 4242: ' + PULL_REQUEST.title, [CHERRY_PICK]: 'Merged PR 4242: ' + PULL_REQUEST.title },
+    builds: [...BUILDS, HOTFIX_BUILD],
+    deployments: [
+      ...BEFORE_MERGE,
+      deploy(DAILY, 101, '2026-01-06T04:00:00Z'),
+      deploy(MSIT, 101, '2026-01-07T04:00:00Z'),
+      deploy(CANARY, 200, '2026-01-07T08:00:00Z'),
+      deploy(PROD_AMERICA, 200, '2026-01-08T04:00:00Z'),
+      deploy(PROD_EUROPE, 200, '2026-01-08T08:00:00Z'),
+    ],
+  },
+  'hotfix-over-main': {
+    ...base,
+    name: 'hotfix-over-main',
+    description: 'Canary took 101, then an unrelated ' + RELEASE_BRANCH + ' hotfix build without the PR; MSIT ran that hotfix before 101',
+    branches: { [RELEASE_BRANCH]: [COMMITS[0], HOTFIX] },
+    builds: [...BUILDS, UNRELATED_HOTFIX_BUILD],
+    deployments: [
+      ...BEFORE_MERGE,
+      deploy(DAILY, 101, '2026-01-06T04:00:00Z'),
+      deploy(MSIT, 201, '2026-01-08T08:00:00Z'),
+      deploy(MSIT, 101, '2026-01-09T04:00:00Z'),
+      deploy(CANARY, 101, '2026-01-08T04:00:00Z'),
+      deploy(CANARY, 201, '2026-01-09T04:00:00Z'),
+    ],
+  },
+  'reverted': {
+    ...base,
+    name: 'reverted',
+    description: 'Reached Daily and MSIT, then was reverted on main - the revert build is live in Daily',
+    commits: [...COMMITS.slice(0, 3), REVERT],
+    messages: { [MERGE_COMMIT]: 'Merged PR 4242: ' + PULL_REQUEST.title, [REVERT]: 'Merged PR 4300: Revert "' + PULL_REQUEST.title + '"' },
+    builds: [...BUILDS.slice(0, 2), REVERT_BUILD],
+    deployments: [
+      ...BEFORE_MERGE,
+      deploy(DAILY, 101, '2026-01-06T04:00:00Z'),
+      deploy(DAILY, 103, '2026-01-09T04:00:00Z'),
+      deploy(MSIT, 101, '2026-01-07T04:00:00Z'),
+    ],
+  },
+  'throttled': {
+    ...base,
+    name: 'throttled',
+    description: 'Same rollout as merged-in-prod; Canary records are throttled twice then recover, PROD-Europe records stay throttled',
+    deployments: [
+      ...BEFORE_MERGE,
+      deploy(DAILY, 101, '2026-01-06T04:00:00Z'),
+      deploy(MSIT, 101, '2026-01-07T04:00:00Z'),
+      deploy(CANARY, 101, '2026-01-08T04:00:00Z'),
+      deploy(PROD_AMERICA, 101, '2026-01-09T04:00:00Z'),
+      deploy(PROD_EUROPE, 101, '2026-01-10T04:00:00Z'),
+    ],
+    failures: [
+      { path: '/environments/' + CANARY + '/', status: 429, retryAfter: 0, times: 2 },
+      { path: '/environments/' + PROD_EUROPE + '/', status: 429, retryAfter: 0 },
+    ],
+  },
+  'unauthorized': {
+    ...base,
+    name: 'unauthorized',
+    description: 'Expired or revoked PAT - every call answers 401',
+    deployments: [],
+    failures: [{ status: 401 }],
+  },
+};
@@ -0,0 +1,18 @@
+// MOCK ADO SERVE - Run the mock ADO server for manual testing of the app or CLI
+// Usage: npm run mock:ado [-- <scenario> [port]]   then ADO_BASE_URL=http://127.0.0.1:<port> npm run cli -- check <MOCK_PR_URL> --trains <file>
+
+import { startMockAdoServer } from './adoMockServer';
+import { MOCK_PR_URL, MOCK_TRAIN, SCENARIOS } from './scenarios';
+
+const name = process.argv[2] || 'merged-in-prod';
+const scenario = SCENARIOS[name];
+if (!scenario) {
+  console.error('Unknown scenario "' + name + '" - scenarios are: ' + Object.keys(SCENARIOS).join(', '));
+  process.exit(2);
+}
+
+startMockAdoServer(scenario, Number(process.argv[3]) || 8788).then(server => {
+  console.log('Mock ADO (' + scenario.name + ': ' + scenario.description + ') on ' + server.url);
+  console.log('PR: ' + MOCK_PR_URL);
+  console.log('Train definition: ' + JSON.stringify([MOCK_TRAIN]));
+});
@@ -0,0 +1,141 @@
+// ADO HTTP - fetch with typed errors, retrying throttled / server / network failures with backoff
+
+import { AdoErrorInfo, AdoErrorKind } from '../types';
+
+const MAX_ATTEMPTS = 3;
+const MAX_RETRY_WAIT = 30 * 1000;   // Longer Retry-After values are surfaced instead of waited out
+
+const TRANSIENT: AdoErrorKind[] = ['throttled', 'server', 'network'];
+const PERMANENT: AdoErrorKind[] = ['auth', 'permission', 'not-found'];
+
+// Where ADO calls go and how - pointed at a local mock server by tests and the CLI (ADO_BASE_URL)
+export interface AdoTransport {
+  baseUrl: string;        // Organization URLs are baseUrl + '/' + organization
+  fetch: typeof fetch;
+  retryDelay: number;     // Base backoff between retries (ms), doubled per attempt plus jitter
+}
+
+const DEFAULT_TRANSPORT: AdoTransport = {
+  baseUrl: 'https://dev.azure.com',
+  fetch: (input, init) => fetch(input, init),
+  retryDelay: 500,
+};
+
+let transport: AdoTransport = DEFAULT_TRANSPORT;
+
+export function configureAdo(options: Partial<AdoTransport>): void {
+  transport = { ...transport, ...options };
+}
+
+export function resetAdo(): void {
+  transport = DEFAULT_TRANSPORT;
+}
+
+export function adoUrl(organization: string): string {
+  return transport.baseUrl.replace(/\/+$/, '') + '/' + organization;
+}
+
+export class AdoError extends Error {
+  readonly kind: AdoErrorKind;
+  readonly call: string;
+  readonly status?: number;
+  readonly retryAfter?: number;
+  readonly url?: string;
+
+  constructor(info: AdoErrorInfo) {
+    super(info.call + ': ' + info.message);
+    this.name = 'AdoError';
+    this.kind = info.kind;
+    this.call = info.call;
+    this.status = info.status;
+    this.retryAfter = info.retryAfter;
+    this.url = info.url;
+  }
+
+  toInfo(): AdoErrorInfo {
+    return {
+      kind: this.kind,
+      call: this.call,
+      message: this.message.slice(this.call.length + 2),
+      status: this.status,
+      retryAfter: this.retryAfter,
+      url: this.url,
+    };
+  }
+}
+
+export interface AdoRequest {
+  headers: Record<string, string>;
+  call: string;              // Human-readable name of the call, shown in errors
+  notFoundMessage?: string;  // Replaces the generic 404 message
+}
+
+function retryAfterSeconds(response: Response): number | undefined {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds;
+  const date = new Date(header).getTime();
+  return isNaN(date) ? undefined : Math.max(0, Math.round((date - Date.now()) / 1000));
+}
+
+function errorFromResponse(response: Response, url: string, request: AdoRequest): AdoError {
+  const status = response.status;
+  const retryAfter = retryAfterSeconds(response);
+  const base = { call: request.call, status, url };
+
+  if (status === 401) return new AdoError({ ...base, kind: 'auth', message: 'Authentication failed - the token is invalid or expired.' });
+  if (status === 403) return new AdoError({ ...base, kind: 'permission', message: 'Access denied - the token lacks a scope or permission for this call.' });
+  if (status === 404) return new AdoError({ ...base, kind: 'not-found', message: request.notFoundMessage || 'Not found.' });
+  if (status === 429 || (status === 503 && retryAfter !== undefined)) {
+    return new AdoError({
+      ...base,
+      kind: 'throttled',
+      retryAfter,
+      message: 'Throttled by Azure DevOps' + (retryAfter !== undefined ? ' - retry after ' + retryAfter + 's.' : '.'),
+    });
+  }
+  if (status >= 500) return new AdoError({ ...base, kind: 'server', message: 'Azure DevOps server error (' + status + ').' });
+  return new AdoError({ ...base, kind: 'unexpected', message: 'Unexpected response (' + status + ').' });
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// GET an ADO URL - resolves only with an ok response, otherwise throws AdoError after retrying transient failures
+export async function adoFetch(url: string, request: AdoRequest): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    let error: AdoError;
+    try {
+      const response = await transport.fetch(url, { headers: request.headers });
+      if (response.ok) return response;
+      error = errorFromResponse(response, url, request);
+    } catch (err) {
+      error = new AdoError({
+        kind: 'network',
+        call: request.call,
+        url,
+        message: 'Network error - ' + (err instanceof Error ? err.message : 'request failed') + '.',
+      });
+    }
+
+    const wait = error.retryAfter !== undefined ? error.retryAfter * 1000 : transport.retryDelay * 2 ** (attempt - 1);
+    if (!TRANSIENT.includes(error.kind) || attempt >= MAX_ATTEMPTS || wait > MAX_RETRY_WAIT) throw error;
+    await sleep(wait + Math.random() * transport.retryDelay);
+  }
+}
+
+// Single GET without retries or error mapping - for probes where any response is an answer
+export function probeAdo(url: string, headers: Record<string, string>): Promise<Response> {
+  return transport.fetch(url, { headers });
+}
+
+// Error details for a status - anything that isn't an AdoError is reported as unexpected
+export function toErrorInfo(error: unknown, call: string): AdoErrorInfo {
+  if (error instanceof AdoError) return error.toInfo();
+  return { kind: 'unexpected', call, message: error instanceof Error ? error.message : String(error) };
+}
+
+// Failures that polling again won't fix - bad token, missing scope, unknown PR / commit
+export function isPermanentError(error: unknown): boolean {
+  return error instanceof AdoError && PERMANENT.includes(error.kind);
+}
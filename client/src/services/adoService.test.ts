@@ -0,0 +1,165 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AdoError, configureAdo, resetAdo } from './adoHttp';
+import { checkPRDeploymentStatus } from './adoService';
+import { CacheEntry, CacheStore, setCacheStore } from './cacheService';
+import { MockAdoServer, startMockAdoServer } from '../mock/adoMockServer';
+import { MERGE_COMMIT, MOCK_PR_URL, MOCK_TRAIN, SCENARIOS } from '../mock/scenarios';
+import { EnvironmentDeploymentStatus, PRDeploymentResult } from '../types';
+
+let server: MockAdoServer;
+
+beforeAll(async () => {
+  server = await startMockAdoServer(SCENARIOS['merged-in-prod']);
+  configureAdo({ baseUrl: server.url, retryDelay: 0 });
+});
+
+afterAll(async () => {
+  resetAdo();
+  await server.close();
+});
+
+function check(scenario: string): Promise<PRDeploymentResult> {
+  server.use(SCENARIOS[scenario]);
+  return checkPRDeploymentStatus(MOCK_PR_URL, 'mock-pat', { trains: [MOCK_TRAIN] });
+}
+
+function stage(result: PRDeploymentResult, name: string): EnvironmentDeploymentStatus {
+  const found = result.environments.find(e => e.environment.name === name);
+  if (!found) throw new Error('No stage ' + name);
+  return found;
+}
+
+// Persistent cache stand-in - Node has no IndexedDB, so the tests otherwise run uncached
+function memoryStore(): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    get: async key => entries.get(key),
+    put: async entry => { entries.set(entry.key, entry); },
+    delete: async key => { entries.delete(key); },
+    clear: async () => entries.clear(),
+  };
+}
+
+// What the other tests run with - nothing is kept
+const NO_STORE: CacheStore = { get: async () => undefined, put: async () => {}, delete: async () => {}, clear: async () => {} };
+
+const statuses = (result: PRDeploymentResult) => Object.fromEntries(result.environments.map(e => [e.environment.name, e.status]));
+
+describe('checkPRDeploymentStatus against the mock ADO server', () => {
+  it('follows a merged PR all the way to PROD', async () => {
+    const result = await check('merged-in-prod');
+
+    expect(result.supportedRepo).toBe(true);
+    expect(result.train?.id).toBe('mock');
+    expect(result.prInfo).toMatchObject({ id: 4242, status: 'completed', mergeCommitId: MERGE_COMMIT, repository: { name: 'mockrepo' } });
+    expect(statuses(result)).toEqual({ Daily: 'included', MSIT: 'included', Canary: 'included', PROD: 'included' });
+
+    // First build containing the merge, not the latest one
+    expect(stage(result, 'Daily')).toMatchObject({ buildId: 101, buildNumber: '20260106.1', buildTimestamp: '2026-01-06T06:00:00.000Z' });
+
+    // Grouped stage completes with its last region
+    const prod = stage(result, 'PROD');
+    expect(prod.coverage).toBe('all');
+    expect(prod.buildTimestamp).toBe('2026-01-10T06:00:00.000Z');
+    expect(prod.regions?.map(r => r.status)).toEqual(['included', 'included']);
+    expect(result.environments.every(e => !e.error)).toBe(true);
+  });
+
+  it('shows a PR stuck behind a failed Canary deployment', async () => {
+    const result = await check('stuck-in-canary');
+
+    expect(statuses(result)).toEqual({ Daily: 'included', MSIT: 'included', Canary: 'not-included', PROD: 'not-included' });
+    expect(stage(result, 'Canary').failedDeployment).toMatchObject({ buildId: 101, buildNumber: '20260106.1' });
+    expect(stage(result, 'Canary').lastDeployment).toMatchObject({ buildId: 100 });
+    expect(stage(result, 'PROD').coverage).toBe('none');
+  });
+
+  it('reports a stage whose first post-merge deployment is still running as in progress', async () => {
+    const result = await check('in-progress');
+
+    expect(statuses(result)).toEqual({ Daily: 'in-progress', MSIT: 'not-included', Canary: 'not-included', PROD: 'not-included' });
+    expect(stage(result, 'Daily').inProgressDeployment).toMatchObject({ buildId: 101 });
+    expect(stage(result, 'Daily').inProgressDeployment?.finishTime).toBeUndefined();
+  });
+
+  it('notices when a stage was rolled back to a build without the PR', async () => {
+    const result = await check('rolled-back');
+
+    expect(statuses(result)).toEqual({ Daily: 'included', MSIT: 'included', Canary: 'rolled-back', PROD: 'not-included' });
+    const canary = stage(result, 'Canary');
+    expect(canary).toMatchObject({ buildId: 101, buildTimestamp: '2026-01-08T06:00:00.000Z' });
+    expect(canary.lastDeployment).toMatchObject({ buildId: 100 });
+    expect(canary.rollback).toMatchObject({ buildId: 100, finishTime: '2026-01-09T06:00:00.000Z' });
+  });
+
+  it('decides from the live build, not build ids, when a release-branch hotfix build is newer', async () => {
+    const result = await check('hotfix-over-main');
+
+    expect(statuses(result)).toEqual({ Daily: 'included', MSIT: 'included', Canary: 'rolled-back', PROD: 'not-included' });
+    expect(stage(result, 'MSIT')).toMatchObject({ buildId: 101, buildTimestamp: '2026-01-09T06:00:00.000Z' });
+    const canary = stage(result, 'Canary');
+    expect(canary).toMatchObject({ buildId: 101, buildTimestamp: '2026-01-08T06:00:00.000Z' });
+    expect(canary.rollback).toMatchObject({ buildId: 201, finishTime: '2026-01-09T06:00:00.000Z' });
+  });
+
+  it('finds stages that got the PR through a cherry-pick onto a release branch', async () => {
+    const result = await check('cherry-picked');
+
+    expect(statuses(result)).toEqual({ Daily: 'included', MSIT: 'included', Canary: 'included', PROD: 'included' });
+    expect(stage(result, 'MSIT').via).toBeUndefined();
+    expect(stage(result, 'Canary')).toMatchObject({ buildId: 200, buildNumber: '20260107.9', via: { branch: 'refs/heads/releases/2026.01' } });
+    expect(stage(result, 'PROD')).toMatchObject({ coverage: 'all', via: { commitId: stage(result, 'Canary').via?.commitId } });
+    expect(result.cherryPicks?.map(c => c.branch)).toEqual(['refs/heads/releases/2026.01']);
+    expect(result.revert).toBeUndefined();
+  });
+
+  it('serves a warm re-check of a cherry-picked PR from the cache, branch history included', async () => {
+    setCacheStore(memoryStore());
+    try {
+      const cold = await check('cherry-picked');
+      expect(server.requests.filter(r => r.includes('/commits?')).length).toBe(2);
+      expect(cold.apiCalls).toBe(server.requests.length - 1);   // Everything but the PR itself
+
+      const warm = await check('cherry-picked');
+      expect(server.requests).toEqual([expect.stringContaining('/pullRequests/4242')]);
+      expect(warm.apiCalls).toBe(0);
+      expect(statuses(warm)).toEqual(statuses(cold));
+    } finally {
+      setCacheStore(NO_STORE);
+    }
+  });
+
+  it('flags a reverted PR and the stages where the revert is live', async () => {
+    const result = await check('reverted');
+
+    expect(result.revert).toMatchObject({ pullRequestId: 4300, branch: 'refs/heads/main' });
+    expect(statuses(result)).toEqual({ Daily: 'included', MSIT: 'included', Canary: 'not-included', PROD: 'not-included' });
+    expect(stage(result, 'Daily').reverted).toBe(true);
+    expect(stage(result, 'MSIT').reverted).toBeUndefined();
+  });
+
+  it('retries throttled calls and surfaces the ones that stay throttled', async () => {
+    const result = await check('throttled');
+
+    // Canary recovered on the third attempt
+    expect(stage(result, 'Canary').status).toBe('included');
+    expect(server.requests.filter(r => r.includes('/environments/3/')).length).toBe(3);
+
+    // PROD-Europe gave up after three attempts - the ETAs reuse the failure instead of retrying
+    const prod = stage(result, 'PROD');
+    expect(prod.status).toBe('partially-deployed');
+    expect(prod.coverage).toBe('partial');
+    expect(prod.error).toMatchObject({ kind: 'throttled', status: 429 });
+    expect(prod.regions?.map(r => r.status)).toEqual(['included', 'error']);
+    expect(server.requests.filter(r => r.includes('/environments/5/')).length).toBe(3);
+  });
+
+  it('rejects with an auth error when the token is refused', async () => {
+    const error = await check('unauthorized').catch(e => e);
+
+    expect(error).toBeInstanceOf(AdoError);
+    expect(error).toMatchObject({ kind: 'auth', status: 401, call: 'Pull request' });
+    // Permanent errors are not retried
+    expect(server.requests.length).toBe(1);
+  });
+});
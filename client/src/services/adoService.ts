@@ -1,16 +1,46 @@
-// FE-ONLY ADO SERVICE - Uses Merge Bases API for ancestry checking
+// ADO SERVICE - Uses Merge Bases API for ancestry checking, driven by train definitions
 
 import {
+  AdoErrorInfo,
   ParsedPRUrl,
   PRInfo,
-  FE_ENVIRONMENTS,
+  DEFAULT_ORGANIZATION,
+  BatchCheckEntry,
+  BuildDeploymentResult,
+  ChangeEntry,
+  CommitDeploymentResult,
+  DeploymentHistoryEntry,
+  DeploymentResult,
+  DeploymentRun,
+  EnvironmentCheck,
+  EnvironmentBuild,
+  EnvironmentComparison,
+  EnvironmentConfig,
   EnvironmentDeploymentStatus,
+  EnvironmentHistory,
+  EquivalentChange,
+  LookupInput,
+  PolicyStatus,
   PRDeploymentResult,
+  PreMergeStatus,
+  PRPolicyCheck,
+  PRReviewer,
+  RegionCoverage,
+  RepoContext,
+  ReviewerVote,
+  TokenScopeCheck,
+  TokenVerification,
+  TrainDefinition,
+  WorkItemDeploymentResult,
 } from '../types';
+import { DEFAULT_TRAINS, findTrainsForRepository } from './trainService';
+import { CACHE_TTL, cacheGet, cacheSet } from './cacheService';
+import { DeploymentSample, predictNextCut, predictStageEtas } from './predictionService';
+import { isJwt, jwtExpiry } from './credentialService';
+import { adoFetch, adoUrl, probeAdo, toErrorInfo } from './adoHttp';
+import { isCherryPickOf, isRevertOf } from '../utils/equivalents';
 
 const API_VERSION = '7.1';
-const POWERBI_CLIENTS_REPO_GUID = '979df5a4-0e65-463c-b88e-6cd5ca2e5df3';
-const POWERBI_CLIENTS_PROJECT = 'PowerBIClients';
 
 export function parsePRUrl(url: string): ParsedPRUrl {
   const devAzureRegex = /https:\/\/dev\.azure\.com\/([^/]+)\/([^/]+)\/_git\/([^/]+)\/pullrequest\/(\d+)/i;
@@ -39,6 +69,33 @@ export function parsePRUrl(url: string): ParsedPRUrl {
   throw new Error('Invalid PR URL format');
 }
 
+// Detect what kind of lookup the user entered: PR URL, commit SHA, work item or build
+export function parseLookupInput(input: string): LookupInput {
+  const value = input.trim();
+
+  if (/\/pullrequest\/\d+/i.test(value)) {
+    parsePRUrl(value);
+    return { kind: 'pr', prUrl: value };
+  }
+
+  let match = value.match(/_workitems\/edit\/(\d+)/i) || value.match(/^(?:AB#|#|wi:)(\d+)$/i);
+  if (match) return { kind: 'work-item', workItemId: parseInt(match[1], 10) };
+
+  match = value.match(/[?&]buildId=(\d+)/i) || value.match(/^build:(\d+)$/i);
+  if (match) return { kind: 'build', buildId: parseInt(match[1], 10) };
+
+  match = value.match(/^build:(.+)$/i) || value.match(/^(\d{8}\.\d+)$/);
+  if (match) return { kind: 'build', buildNumber: match[1].trim() };
+
+  // Hex only - require a letter (or full length) so plain numbers aren't mistaken for SHAs
+  match = value.match(/^(?:commit:)?([0-9a-f]{7,40})$/i);
+  if (match && (/[a-f]/i.test(match[1]) || match[1].length === 40 || /^commit:/i.test(value))) {
+    return { kind: 'commit', commitId: match[1].toLowerCase() };
+  }
+
+  throw new Error('Unrecognized input. Enter a PR URL, commit SHA, work item (AB#123) or build number (20241019.1 / build:123).');
+}
+
 interface ADOPRResponse {
   pullRequestId: number;
   title: string;
@@ -51,9 +108,23 @@ interface ADOPRResponse {
   creationDate: string;
   closedDate?: string;
   lastMergeCommit?: { commitId: string; };
+  isDraft?: boolean;
+  mergeStatus?: string;
+  reviewers?: Array<{ displayName: string; vote: number; isRequired?: boolean; }>;
   url: string;
 }
 
+interface ADOPolicyEvaluation {
+  status: string;
+  configuration: {
+    isEnabled: boolean;
+    isBlocking: boolean;
+    type: { displayName: string; };
+    settings?: { displayName?: string; };
+  };
+  context?: { buildId?: number; };
+}
+
 interface ADOEnvironmentDeploymentRecord {
   id: number;
   environmentId: number;
@@ -64,107 +135,804 @@ interface ADOEnvironmentDeploymentRecord {
   finishTime?: string;
 }
 
+interface ADOCommit {
+  commitId: string;
+  comment: string;
+  author: { name: string; email?: string; date: string; };
+  remoteUrl?: string;
+  workItems?: Array<{ id: string; }>;
+}
+
+interface ADOWorkItem {
+  id: number;
+  fields: Record<string, string>;
+  relations?: Array<{ rel: string; url: string; }>;
+  _links?: { html?: { href: string; }; };
+}
+
+interface ADOEnvironment {
+  id: number;
+  name: string;
+}
+
 interface ADOBuild {
   id: number;
   buildNumber: string;
   status: string;
   result: string;
   sourceVersion: string;
+  sourceBranch?: string;
   startTime: string;
   finishTime?: string;
   _links?: { web?: { href: string; }; };
 }
 
-export async function checkPRDeploymentStatus(prUrl: string, pat: string): Promise<PRDeploymentResult> {
-  const parsed = parsePRUrl(prUrl);
-  const headers = {
-    Authorization: 'Basic ' + btoa(':' + pat),
+// Shared lookups for one or many checks - PRs landing in the same builds reuse records, builds and merge bases
+export interface CheckContext {
+  environments: Map<string, Promise<ADOEnvironment[]>>;
+  records: Map<string, Promise<DeploymentRecordsPage>>;
+  builds: Map<string, Promise<ADOBuild>>;
+  mergeBases: Map<string, Promise<boolean>>;
+  branchCommits: Map<string, Promise<ADOCommit[]>>;
+}
+
+export function createCheckContext(): CheckContext {
+  return { environments: new Map(), records: new Map(), builds: new Map(), mergeBases: new Map(), branchCommits: new Map() };
+}
+
+// Share one in-flight/completed lookup per key - failures too, so a throttled call isn't retried again within
+// the same check (contexts live for one check, batch or poll round; the next one retries)
+function memoize<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+  let pending = cache.get(key);
+  if (!pending) {
+    pending = load();
+    cache.set(key, pending);
+  }
+  return pending;
+}
+
+// Memoize per context, backed by the persistent cache - failed lookups throw and are never persisted
+function cachedLookup<T>(
+  cache: Map<string, Promise<T>>,
+  key: string,
+  ttl: number | null,
+  load: () => Promise<T>,
+  shouldPersist: (value: T) => boolean = () => true
+): Promise<T> {
+  return memoize(cache, key, async () => {
+    const hit = await cacheGet<T>(key);
+    if (hit !== undefined) return hit;
+
+    const value = await load();
+    if (shouldPersist(value)) cacheSet(key, value, ttl);
+    return value;
+  });
+}
+
+export interface CheckOptions {
+  trains?: TrainDefinition[];
+  trainId?: string;          // Preferred train when several match the repository
+  context?: CheckContext;    // Reuse lookups across checks (batch mode)
+  organization?: string;     // Organization for lookups without a PR URL
+  historyDepth?: number;     // Max deployment records to walk back per environment (overrides the train's)
+}
+
+// How far back to walk deployment records: stop at `since` (merge time) or after maxRecords
+interface HistoryWindow {
+  since?: string;
+  maxRecords: number;
+}
+
+// Network calls made while checking one environment (cache hits are not counted)
+interface CallCounter {
+  calls: number;
+}
+
+// Recent deployments of an environment regardless of the PR (stage details, watch notifications)
+type DeploymentActivity = Pick<EnvironmentCheck, 'lastDeployment' | 'inProgressDeployment' | 'failedDeployment'>;
+
+const DEFAULT_HISTORY_DEPTH = 200;
+const RECORDS_PAGE_SIZE = 50;
+
+// Active PRs: deployment history window for projected dates, and the cut stage's builds sampled for its cadence
+const PRE_MERGE_LOOKBACK = 28 * 24 * 60 * 60 * 1000;
+const CUT_SAMPLE_SIZE = 10;
+const DEFAULT_CUT_STAGE = 'Daily';
+
+// Environment compare: commits listed per page, and at most
+const COMMITS_PAGE_SIZE = 500;
+const MAX_COMPARE_COMMITS = 2000;
+
+const BATCH_CONCURRENCY = 3;
+
+// PATs go as Basic auth, Entra ID access tokens (JWTs) as Bearer
+function createHeaders(pat: string): Record<string, string> {
+  return {
+    Authorization: isJwt(pat) ? 'Bearer ' + pat : 'Basic ' + btoa(':' + pat),
     'Content-Type': 'application/json',
   };
+}
+
+// Scopes the tracker needs, each verified by a cheap read the scope allows
+const REQUIRED_SCOPES: Array<{ scope: string; label: string; optional?: boolean; path: (project: string) => string }> = [
+  { scope: 'vso.code', label: 'Code (Read)', path: project => project + '/_apis/git/repositories?$top=1&api-version=' + API_VERSION },
+  { scope: 'vso.build', label: 'Build (Read)', path: project => project + '/_apis/build/builds?$top=1&api-version=' + API_VERSION },
+  { scope: 'vso.environment_manage', label: 'Environment (Read & manage)', path: project => project + '/_apis/distributedtask/environments?$top=1&api-version=7.1-preview.1' },
+  { scope: 'vso.work', label: 'Work Items (Read)', optional: true, path: project => project + '/_apis/wit/workitemtypes?api-version=' + API_VERSION },
+];
+
+// Check a token is valid and has every scope the tracker uses - missing scopes are reported one by one
+export async function verifyToken(
+  pat: string,
+  organization: string = DEFAULT_ORGANIZATION,
+  project: string = DEFAULT_TRAINS[0].project
+): Promise<TokenVerification> {
+  const headers = createHeaders(pat);
+  const orgUrl = adoUrl(organization);
+  const expiresOn = jwtExpiry(pat);
+
+  if (expiresOn && new Date(expiresOn).getTime() < Date.now()) {
+    return { valid: false, expiresOn, scopes: [], error: 'Token expired ' + new Date(expiresOn).toLocaleString() + '.' };
+  }
+
+  let user: string | undefined;
+  try {
+    const response = await probeAdo(orgUrl + '/_apis/connectionData', headers);
+    if (response.status === 401) return { valid: false, expiresOn, scopes: [], error: 'Token is invalid, expired or revoked.' };
+    if (!response.ok) return { valid: false, expiresOn, scopes: [], error: 'ADO API Error: ' + response.status };
+    const connection = await response.json();
+    user = connection.authenticatedUser?.providerDisplayName;
+  } catch {
+    return { valid: false, expiresOn, scopes: [], error: 'Could not reach Azure DevOps.' };
+  }
+
+  const scopes = await Promise.all(REQUIRED_SCOPES.map(async ({ scope, label, optional, path }): Promise<TokenScopeCheck> => {
+    try {
+      const response = await probeAdo(orgUrl + '/' + path(encodeURIComponent(project)), headers);
+      return { scope, label, optional, granted: response.ok };
+    } catch {
+      return { scope, label, optional, granted: false };
+    }
+  }));
+
+  return { valid: true, user, expiresOn, scopes };
+}
+
+export async function checkPRDeploymentStatus(prUrl: string, pat: string, options: CheckOptions = {}): Promise<PRDeploymentResult> {
+  const { trains = DEFAULT_TRAINS, trainId, context = createCheckContext() } = options;
+  const parsed = parsePRUrl(prUrl);
+  const headers = createHeaders(pat);
 
-  // Check if FE repository (PowerBIClients) using regex to avoid encoding issues
-  const isFERepo = /^powerbiclients$/i.test(parsed.repository);
+  const pullRequest = await fetchPullRequest(parsed, headers);
+  const prInfo = toPRInfo(parsed, pullRequest);
 
-  if (!isFERepo) {
-    const prInfo = await fetchPRInfo(parsed, headers);
+  // Pick the requested train if it matches the repository, otherwise the first matching one
+  const matchingTrains = findTrainsForRepository(trains, parsed.repository);
+  const train = matchingTrains.find(t => t.id === trainId) || matchingTrains[0];
+
+  if (!train) {
     return {
       prInfo,
       environments: [],
       supportedRepo: false,
-      unsupportedMessage: 'BE (powerbi) repository is not supported yet.',
+      unsupportedMessage: 'Repository ' + prInfo.repository.name + ' has no train definition.',
     };
   }
 
-  const prInfo = await fetchPRInfo(parsed, headers);
+  const repo: RepoContext = {
+    organization: parsed.organization,
+    project: train.project,
+    repositoryId: train.repositoryId || prInfo.repository.id,
+  };
+
+  const ladder = await resolveEnvironments(repo, train.environments, headers, context);
 
   if (prInfo.status !== 'completed' || !prInfo.mergeCommitId) {
+    const pending: EnvironmentDeploymentStatus[] = ladder.map(env => ({
+      environment: env,
+      status: 'not-included' as const,
+      regions: env.regions?.map(region => ({ environment: region, status: 'not-included' as const })),
+    }));
+    if (prInfo.status !== 'active') {
+      return { prInfo, train, environments: pending, supportedRepo: true, unsupportedMessage: 'PR is not merged yet.' };
+    }
+
+    // Active PR: where it would go if merged now - projected from each stage's recent cadence
+    const recent: HistoryWindow = {
+      since: new Date(Date.now() - PRE_MERGE_LOOKBACK).toISOString(),
+      maxRecords: options.historyDepth || train.historyDepth || DEFAULT_HISTORY_DEPTH,
+    };
+    const [environments, preMerge] = await Promise.all([
+      attachPredictions(repo, train, pending, recent, headers, context),
+      fetchPreMergeStatus(parsed, pullRequest, repo, train, ladder, recent, headers, context),
+    ]);
     return {
       prInfo,
-      environments: FE_ENVIRONMENTS.map(env => ({ environment: env, status: 'not-included' as const })),
+      train,
+      environments,
       supportedRepo: true,
-      unsupportedMessage: 'PR is not merged yet.',
+      unsupportedMessage: 'PR is not merged yet - projected dates assume it merges now.',
+      preMerge,
     };
   }
 
-  // Check ALL environments in PARALLEL for speed (6 concurrent requests)
-  // Each environment check now returns its own expectedDate based on actual deployment data
-  const environmentPromises = FE_ENVIRONMENTS.map(async (env) => {
-    const status = await checkEnvironmentStatus(parsed.organization, env.id, prInfo.mergeCommitId!, headers);
-    return { environment: env, ...status };
+  // Check ALL environments in PARALLEL for speed (one request chain per environment / region)
+  // Deployments that finished before the PR merged can't contain it
+  const history: HistoryWindow = {
+    since: prInfo.closedDate,
+    maxRecords: options.historyDepth || train.historyDepth || DEFAULT_HISTORY_DEPTH,
+  };
+  const environmentPromises = ladder.map(env =>
+    checkStage(env, environmentId => checkEnvironmentStatus(repo, environmentId, prInfo.mergeCommitId!, history, headers, context)));
+
+  const checked = await Promise.all(environmentPromises);
+  const equivalents = await attachEquivalents(repo, prInfo, checked, headers, context);
+  const environments = await attachPredictions(repo, train, equivalents.environments, history, headers, context);
+
+  return {
+    prInfo,
+    train,
+    environments,
+    supportedRepo: true,
+    apiCalls: sumApiCalls(environments) + equivalents.apiCalls,   // Cherry-pick / revert lookups aren't tied to a stage
+    cherryPicks: equivalents.cherryPicks.length > 0 ? equivalents.cherryPicks : undefined,
+    revert: equivalents.revert,
+  };
+}
+
+// Check many PRs with a shared context, a few at a time; onEntry fires as each PR finishes
+export async function checkPRDeploymentStatusBatch(
+  prUrls: string[],
+  pat: string,
+  options: CheckOptions = {},
+  onEntry?: (entry: BatchCheckEntry, index: number) => void
+): Promise<BatchCheckEntry[]> {
+  const context = options.context || createCheckContext();
+  const entries: BatchCheckEntry[] = prUrls.map(prUrl => ({ prUrl }));
+  let next = 0;
+
+  const worker = async () => {
+    while (next < prUrls.length) {
+      const index = next++;
+      try {
+        entries[index] = { prUrl: prUrls[index], result: await checkPRDeploymentStatus(prUrls[index], pat, { ...options, context }) };
+      } catch (err) {
+        entries[index] = { prUrl: prUrls[index], error: err instanceof Error ? err.message : 'An unexpected error occurred' };
+      }
+      onEntry?.(entries[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, prUrls.length) }, worker));
+  return entries;
+}
+
+// List PR URLs created by the PAT owner and completed in the last N days
+export async function listMyCompletedPRs(repoUrl: string, pat: string, days: number): Promise<string[]> {
+  const parsed = parseRepoUrl(repoUrl);
+  const headers = createHeaders(pat);
+  const orgUrl = adoUrl(parsed.organization);
+
+  const connectionResponse = await adoFetch(orgUrl + '/_apis/connectionData', { headers, call: 'Current user' });
+  const connection = await connectionResponse.json();
+  const userId: string | undefined = connection.authenticatedUser?.id;
+  if (!userId) throw new Error('Could not resolve the current user.');
+
+  const minTime = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const url = orgUrl + '/' + encodeURIComponent(parsed.project) + '/_apis/git/repositories/' + encodeURIComponent(parsed.repository)
+    + '/pullrequests?searchCriteria.status=completed&searchCriteria.creatorId=' + userId
+    + '&searchCriteria.queryTimeRangeType=closed&searchCriteria.minTime=' + encodeURIComponent(minTime)
+    + '&$top=100&api-version=' + API_VERSION;
+  const response = await adoFetch(url, { headers, call: 'Completed PR search', notFoundMessage: 'Repository not found.' });
+
+  const data = await response.json();
+  const prs: ADOPRResponse[] = data.value || [];
+  return prs.map(pr =>
+    orgUrl + '/' + encodeURIComponent(parsed.project) + '/_git/' + encodeURIComponent(parsed.repository) + '/pullrequest/' + pr.pullRequestId);
+}
+
+export function parseRepoUrl(url: string): Omit<ParsedPRUrl, 'pullRequestId'> {
+  const devAzureRegex = /https:\/\/dev\.azure\.com\/([^/]+)\/([^/]+)\/_git\/([^/?#]+)/i;
+  const vstsRegex = /https:\/\/([^.]+)\.visualstudio\.com\/([^/]+)\/_git\/([^/?#]+)/i;
+
+  const match = url.match(devAzureRegex) || url.match(vstsRegex);
+  if (!match) throw new Error('Invalid repository URL format');
+
+  return {
+    organization: match[1],
+    project: decodeURIComponent(match[2]),
+    repository: decodeURIComponent(match[3]),
+  };
+}
+
+// Check a single stage - grouped stages check every region and aggregate the result
+async function checkStage(
+  env: EnvironmentConfig,
+  checkEnvironment: (environmentId: number) => Promise<EnvironmentCheck>
+): Promise<EnvironmentDeploymentStatus> {
+  if (env.regions) {
+    const regions = await Promise.all(env.regions.map(region => checkStage(region, checkEnvironment)));
+    return aggregateRegions(env, regions);
+  }
+  if (!env.id) {
+    return {
+      environment: env,
+      status: 'error',
+      error: { kind: 'not-found', call: 'Environment lookup', message: 'No ADO environment named ' + (env.adoName || env.name) + '.' },
+    };
+  }
+  const status = await checkEnvironment(env.id);
+  return { environment: env, ...status };
+}
+
+function resolveTrain(trains: TrainDefinition[], trainId?: string): TrainDefinition {
+  const train = trains.find(t => t.id === trainId) || trains[0];
+  if (!train) throw new Error('No train definitions loaded.');
+  return train;
+}
+
+// Repository context for lookups without a PR - needs the train's repository id or name
+function trainRepoContext(train: TrainDefinition, organization: string): RepoContext {
+  const repositoryId = train.repositoryId || train.repository;
+  if (!repositoryId) throw new Error('Train ' + train.name + ' has no repository configured.');
+  return { organization, project: train.project, repositoryId };
+}
+
+// Check a commit (e.g. a hotfix SHA) with the same ancestry check as a merged PR
+export async function checkCommitDeploymentStatus(commitId: string, pat: string, options: CheckOptions = {}): Promise<CommitDeploymentResult> {
+  const { trains = DEFAULT_TRAINS, trainId, context = createCheckContext(), organization = DEFAULT_ORGANIZATION } = options;
+  const headers = createHeaders(pat);
+  const train = resolveTrain(trains, trainId);
+  const repo = trainRepoContext(train, organization);
+
+  // Resolve short SHAs to the full commit id
+  const url = adoUrl(organization) + '/' + encodeURIComponent(repo.project) + '/_apis/git/repositories/' + encodeURIComponent(repo.repositoryId) + '/commits/' + commitId + '?api-version=' + API_VERSION;
+  const response = await adoFetch(url, { headers, call: 'Commit lookup', notFoundMessage: 'Commit not found in ' + train.name + ' repository.' });
+  const commit: ADOCommit = await response.json();
+
+  const history: HistoryWindow = {
+    since: commit.author.date,
+    maxRecords: options.historyDepth || train.historyDepth || DEFAULT_HISTORY_DEPTH,
+  };
+  const ladder = await resolveEnvironments(repo, train.environments, headers, context);
+  const checked = await Promise.all(ladder.map(env =>
+    checkStage(env, environmentId => checkEnvironmentStatus(repo, environmentId, commit.commitId, history, headers, context))));
+  const environments = await attachPredictions(repo, train, checked, history, headers, context);
+
+  return {
+    kind: 'commit',
+    commit: {
+      commitId: commit.commitId,
+      comment: commit.comment,
+      author: { name: commit.author.name, date: commit.author.date },
+      url: commit.remoteUrl,
+    },
+    train,
+    environments,
+    apiCalls: sumApiCalls(environments),
+  };
+}
+
+// Show which environments a specific build was deployed to
+export async function checkBuildDeployments(
+  build: { buildId?: number; buildNumber?: string },
+  pat: string,
+  options: CheckOptions = {}
+): Promise<BuildDeploymentResult> {
+  const { trains = DEFAULT_TRAINS, trainId, context = createCheckContext(), organization = DEFAULT_ORGANIZATION } = options;
+  const headers = createHeaders(pat);
+  const train = resolveTrain(trains, trainId);
+  const repo = trainRepoContext(train, organization);
+
+  let adoBuild: ADOBuild | null = null;
+  if (build.buildId) {
+    adoBuild = await fetchBuild(repo, build.buildId, headers, context);
+  } else if (build.buildNumber) {
+    const url = adoUrl(organization) + '/' + encodeURIComponent(repo.project) + '/_apis/build/builds?buildNumber=' + encodeURIComponent(build.buildNumber) + '&$top=1&api-version=' + API_VERSION;
+    const response = await adoFetch(url, { headers, call: 'Build search' });
+    const data = await response.json();
+    adoBuild = (data.value || [])[0] || null;
+  }
+  if (!adoBuild) throw new Error('Build not found in ' + train.project + '.');
+
+  const buildId = adoBuild.id;
+  const history: HistoryWindow = {
+    since: adoBuild.startTime,
+    maxRecords: options.historyDepth || train.historyDepth || DEFAULT_HISTORY_DEPTH,
+  };
+  const ladder = await resolveEnvironments(repo, train.environments, headers, context);
+  const environments = await Promise.all(ladder.map(env =>
+    checkStage(env, async (environmentId): Promise<EnvironmentCheck> => {
+      let records: ADOEnvironmentDeploymentRecord[];
+      try {
+        records = await fetchDeploymentHistory(repo, environmentId, history, headers, context);
+      } catch (error) {
+        return { status: 'error', error: toErrorInfo(error, 'Environment ' + environmentId) };
+      }
+      const activity = deploymentActivity(records);
+      const buildRecords = records.filter(r => r.owner?.id === buildId);
+      const succeeded = buildRecords.find(r => r.result?.toLowerCase() === 'succeeded');
+      if (succeeded) {
+        return {
+          status: 'included',
+          buildId,
+          buildNumber: adoBuild!.buildNumber,
+          buildTimestamp: succeeded.finishTime || succeeded.startTime,
+          buildUrl: adoBuild!._links?.web?.href,
+          ...activity,
+        };
+      }
+      return { status: buildRecords.some(r => !r.finishTime) ? 'in-progress' : 'not-included', ...activity };
+    })));
+
+  return {
+    kind: 'build',
+    build: {
+      id: adoBuild.id,
+      buildNumber: adoBuild.buildNumber,
+      sourceVersion: adoBuild.sourceVersion,
+      finishTime: adoBuild.finishTime,
+      url: adoBuild._links?.web?.href,
+    },
+    train,
+    environments,
+  };
+}
+
+// Resolve a work item to its linked PRs and check them all as a batch
+export async function checkWorkItemDeploymentStatus(
+  workItemId: number,
+  pat: string,
+  options: CheckOptions = {},
+  onEntry?: (entry: BatchCheckEntry, index: number) => void
+): Promise<WorkItemDeploymentResult> {
+  const organization = options.organization || DEFAULT_ORGANIZATION;
+  const headers = createHeaders(pat);
+  const orgUrl = adoUrl(organization);
+
+  const response = await adoFetch(orgUrl + '/_apis/wit/workitems/' + workItemId + '?$expand=relations&api-version=' + API_VERSION,
+    { headers, call: 'Work item', notFoundMessage: 'Work item not found.' });
+  const workItem: ADOWorkItem = await response.json();
+
+  // PR links look like vstfs:///Git/PullRequestId/{projectId}%2F{repositoryId}%2F{pullRequestId}
+  const prIds = (workItem.relations || [])
+    .filter(r => r.rel === 'ArtifactLink' && /^vstfs:\/\/\/Git\/PullRequestId\//i.test(r.url))
+    .map(r => parseInt(decodeURIComponent(r.url.split('/').pop() || '').split('/').pop() || '', 10))
+    .filter(id => !isNaN(id));
+
+  // Look each PR up at org level to build a URL with project / repository names - failed lookups stay listed
+  const lookups = await Promise.all(Array.from(new Set(prIds)).map(async (prId): Promise<BatchCheckEntry> => {
+    try {
+      const prResponse = await adoFetch(orgUrl + '/_apis/git/pullrequests/' + prId + '?api-version=' + API_VERSION,
+        { headers, call: 'Linked PR ' + prId, notFoundMessage: 'PR not found.' });
+      const pr: ADOPRResponse = await prResponse.json();
+      return { prUrl: orgUrl + '/' + encodeURIComponent(pr.repository.project.name) + '/_git/' + encodeURIComponent(pr.repository.name) + '/pullrequest/' + pr.pullRequestId };
+    } catch (error) {
+      return { prUrl: 'PR ' + prId, error: error instanceof Error ? error.message : 'PR lookup failed' };
+    }
+  }));
+
+  const checked = await checkPRDeploymentStatusBatch(lookups.filter(l => !l.error).map(l => l.prUrl), pat, options, onEntry);
+  const pullRequests = [...checked, ...lookups.filter(l => l.error)];
+
+  return {
+    kind: 'work-item',
+    workItem: {
+      id: workItem.id,
+      title: workItem.fields['System.Title'],
+      type: workItem.fields['System.WorkItemType'],
+      url: workItem._links?.html?.href,
+    },
+    pullRequests,
+  };
+}
+
+// Recent deployments of every stage of a train, newest first - whatever they carried (environments view)
+export async function getTrainDeploymentHistory(
+  pat: string,
+  days: number,
+  options: CheckOptions = {}
+): Promise<EnvironmentHistory[]> {
+  const { trains = DEFAULT_TRAINS, trainId, context = createCheckContext(), organization = DEFAULT_ORGANIZATION } = options;
+  const headers = createHeaders(pat);
+  const train = resolveTrain(trains, trainId);
+  const repo = trainRepoContext(train, organization);
+  const history: HistoryWindow = {
+    since: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+    maxRecords: options.historyDepth || train.historyDepth || DEFAULT_HISTORY_DEPTH,
+  };
+
+  const load = async (env: EnvironmentConfig): Promise<EnvironmentHistory> => {
+    if (env.regions) return { environment: env, deployments: [], regions: await Promise.all(env.regions.map(load)) };
+    if (!env.id) {
+      return {
+        environment: env,
+        deployments: [],
+        error: { kind: 'not-found', call: 'Environment lookup', message: 'No ADO environment named ' + (env.adoName || env.name) + '.' },
+      };
+    }
+    try {
+      const sinceTime = new Date(history.since!).getTime();
+      const records = await fetchDeploymentHistory(repo, env.id, history, headers, context);
+      return {
+        environment: env,
+        deployments: records.filter(r => r.owner?.id && new Date(r.startTime).getTime() >= sinceTime).map(toHistoryEntry),
+      };
+    } catch (error) {
+      return { environment: env, deployments: [], error: toErrorInfo(error, 'Environment ' + env.id) };
+    }
+  };
+
+  const ladder = await resolveEnvironments(repo, train.environments, headers, context);
+  return Promise.all(ladder.map(load));
+}
+
+// What's in flight between two environments: the commits (and PRs) in one's current build but not the other's
+export async function compareEnvironments(
+  pat: string,
+  fromName: string,
+  toName: string,
+  options: CheckOptions = {}
+): Promise<EnvironmentComparison> {
+  const { trains = DEFAULT_TRAINS, trainId, context = createCheckContext(), organization = DEFAULT_ORGANIZATION } = options;
+  const headers = createHeaders(pat);
+  const train = resolveTrain(trains, trainId);
+  const repo = trainRepoContext(train, organization);
+  const ladder = flattenEnvironments(await resolveEnvironments(repo, train.environments, headers, context));
+
+  const currentBuild = async (name: string): Promise<EnvironmentBuild> => {
+    const env = ladder.find(e => e.name === name);
+    if (!env) throw new Error(train.name + ' has no stage named ' + name + '.');
+    if (!env.id) throw new Error('No ADO environment named ' + (env.adoName || env.name) + '.');
+    const records = await fetchDeploymentHistory(repo, env.id, { maxRecords: RECORDS_PAGE_SIZE }, headers, context);
+    const run = deploymentActivity(records).lastDeployment;
+    if (!run) throw new Error(env.displayName + ' has no succeeded deployment.');
+    const build = await fetchBuild(repo, run.buildId, headers, context);
+    return { ...run, environment: env, sourceVersion: build.sourceVersion };
+  };
+
+  const [from, to] = await Promise.all([currentBuild(fromName), currentBuild(toName)]);
+  if (from.sourceVersion === to.sourceVersion) {
+    return { train, ahead: from, behind: to, changes: [], sameBuild: true, diverged: false, truncated: false };
+  }
+
+  // Whichever build contains the other is ahead
+  const [toContainsFrom, fromContainsTo] = await Promise.all([
+    isPRIncludedInBuild(repo, from.sourceVersion, to.sourceVersion, headers, context),
+    isPRIncludedInBuild(repo, to.sourceVersion, from.sourceVersion, headers, context),
+  ]);
+  const [ahead, behind] = toContainsFrom && !fromContainsTo ? [to, from] : [from, to];
+  const { changes, truncated } = await fetchCommitRange(repo, ahead.sourceVersion, behind.sourceVersion, headers);
+
+  return { train, ahead, behind, changes, sameBuild: false, diverged: !toContainsFrom && !fromContainsTo, truncated };
+}
+
+// Stages and regions in ladder order, without the group entries themselves
+function flattenEnvironments(environments: EnvironmentConfig[]): EnvironmentConfig[] {
+  return environments.flatMap(env => env.regions ? flattenEnvironments(env.regions) : [env]);
+}
+
+// Commits reachable from `ahead` but not from `behind`, with their linked work items
+async function fetchCommitRange(
+  repo: RepoContext,
+  ahead: string,
+  behind: string,
+  headers: Record<string, string>
+): Promise<{ changes: ChangeEntry[]; truncated: boolean }> {
+  const baseUrl = adoUrl(repo.organization) + '/' + encodeURIComponent(repo.project) + '/_apis/git/repositories/' + repo.repositoryId
+    + '/commits?searchCriteria.itemVersion.version=' + ahead + '&searchCriteria.itemVersion.versionType=commit'
+    + '&searchCriteria.compareVersion.version=' + behind + '&searchCriteria.compareVersion.versionType=commit'
+    + '&searchCriteria.includeWorkItems=true&searchCriteria.$top=' + COMMITS_PAGE_SIZE + '&api-version=' + API_VERSION;
+  const commits: ADOCommit[] = [];
+
+  for (let skip = 0; skip < MAX_COMPARE_COMMITS; skip += COMMITS_PAGE_SIZE) {
+    const response = await adoFetch(baseUrl + '&searchCriteria.$skip=' + skip, { headers, call: 'Commit range' });
+    const page: ADOCommit[] = (await response.json()).value || [];
+    commits.push(...page);
+    if (page.length < COMMITS_PAGE_SIZE) return { changes: commits.map(toChangeEntry), truncated: false };
+  }
+  return { changes: commits.map(toChangeEntry), truncated: true };
+}
+
+// Commits on a branch since `since`, newest first - one page is plenty for a release branch since a merge
+async function fetchBranchCommits(
+  repo: RepoContext,
+  branch: string,
+  since: string | undefined,
+  headers: Record<string, string>,
+  context: CheckContext,
+  counter?: CallCounter
+): Promise<ADOCommit[]> {
+  const url = adoUrl(repo.organization) + '/' + encodeURIComponent(repo.project) + '/_apis/git/repositories/' + repo.repositoryId
+    + '/commits?searchCriteria.itemVersion.version=' + encodeURIComponent(branch.replace(/^refs\/heads\//, ''))
+    + '&searchCriteria.itemVersion.versionType=branch' + (since ? '&searchCriteria.fromDate=' + encodeURIComponent(since) : '')
+    + '&searchCriteria.$top=' + COMMITS_PAGE_SIZE + '&api-version=' + API_VERSION;
+  return cachedLookup(context.branchCommits, url, CACHE_TTL.branchCommits, async () => {
+    if (counter) counter.calls++;
+    const response = await adoFetch(url, { headers, call: 'Branch commits' });
+    return (await response.json()).value || [];
   });
+}
+
+// Cherry-picks and reverts: a stage running a release-branch build can have the change without the merge commit,
+// and a revert on the target branch takes it back out. Lookup failures leave the statuses as they were
+async function attachEquivalents(
+  repo: RepoContext,
+  prInfo: PRInfo,
+  environments: EnvironmentDeploymentStatus[],
+  headers: Record<string, string>,
+  context: CheckContext
+): Promise<{ environments: EnvironmentDeploymentStatus[]; cherryPicks: EquivalentChange[]; revert?: EquivalentChange; apiCalls: number }> {
+  const counter: CallCounter = { calls: 0 };
+  const leaves = (statuses: EnvironmentDeploymentStatus[]): EnvironmentDeploymentStatus[] =>
+    statuses.flatMap(s => s.regions ? leaves(s.regions) : [s]);
+  const liveBuild = (status: EnvironmentDeploymentStatus): Promise<ADOBuild | null> => status.lastDeployment
+    ? fetchBuild(repo, status.lastDeployment.buildId, headers, context, counter).catch(() => null)
+    : Promise.resolve(null);
+  const lacksChange = (status: EnvironmentDeploymentStatus) => status.status !== 'included' && status.status !== 'error';
+
+  try {
+    // Release branches the builds of stages without the PR were cut from
+    const pendingBuilds = await Promise.all(leaves(environments).filter(lacksChange).map(liveBuild));
+    const branches = Array.from(new Set(pendingBuilds.map(b => b?.sourceBranch).filter((b): b is string => !!b && b !== prInfo.targetRefName)));
+
+    const [targetCommits, ...branchCommits] = await Promise.all(
+      [prInfo.targetRefName, ...branches].map(branch => fetchBranchCommits(repo, branch, prInfo.closedDate, headers, context, counter)));
+    const revertCommit = targetCommits.find(c => isRevertOf(c, prInfo));
+    const revert = revertCommit ? { ...toChangeEntry(revertCommit), branch: prInfo.targetRefName } : undefined;
+    // A squash cherry-pick keeps "Merged PR <original>" - only a different PR id is a cherry-pick PR
+    const cherryPicks = branches.flatMap((branch, i) => branchCommits[i].filter(c => isCherryPickOf(c, prInfo)).map(c => {
+      const change = toChangeEntry(c);
+      return change.pullRequestId === prInfo.id
+        ? { ...change, pullRequestId: undefined, pullRequestUrl: undefined, branch }
+        : { ...change, branch };
+    }));
+    if (cherryPicks.length === 0 && !revert) return { environments, cherryPicks, apiCalls: counter.calls };
 
-  const environments = await Promise.all(environmentPromises);
+    const update = async (status: EnvironmentDeploymentStatus): Promise<EnvironmentDeploymentStatus> => {
+      if (status.regions) return aggregateRegions(status.environment, await Promise.all(status.regions.map(update)));
+      const build = await liveBuild(status);
+      if (!build?.sourceVersion) return status;
 
-  return { prInfo, environments, supportedRepo: true };
+      let next = status;
+      if (lacksChange(status)) {
+        for (const pick of cherryPicks.filter(p => p.branch === build.sourceBranch)) {
+          if (!await isPRIncludedInBuild(repo, pick.commitId, build.sourceVersion, headers, context, counter)) continue;
+          const run = status.lastDeployment!;
+          next = {
+            ...status,
+            status: 'included',
+            via: pick,
+            buildId: build.id,
+            buildNumber: build.buildNumber,
+            buildTimestamp: run.finishTime || run.startTime,
+            buildUrl: build._links?.web?.href,
+            rollback: undefined,
+          };
+          break;
+        }
+      }
+      if (revert && next.status === 'included' && await isPRIncludedInBuild(repo, revert.commitId, build.sourceVersion, headers, context, counter)) {
+        next = { ...next, reverted: true };
+      }
+      return next;
+    };
+
+    const updated = await Promise.all(environments.map(update));
+    return { environments: updated, cherryPicks, revert, apiCalls: counter.calls };
+  } catch (error) {
+    console.error('Error looking for cherry-picks and reverts:', error);
+    return { environments, cherryPicks: [], apiCalls: counter.calls };
+  }
 }
 
-// Calculate next deployment date based on actual deployment frequency from ADO records
-function calculateNextDeploymentDate(succeededRecords: ADOEnvironmentDeploymentRecord[]): string | undefined {
-  if (succeededRecords.length < 2) return undefined;
-  
-  // Sort by finish time descending (most recent first)
-  const sortedRecords = [...succeededRecords]
-    .filter(r => r.finishTime)
-    .sort((a, b) => new Date(b.finishTime!).getTime() - new Date(a.finishTime!).getTime());
-  
-  if (sortedRecords.length < 2) return undefined;
-  
-  // Calculate average interval between deployments
-  let totalInterval = 0;
-  for (let i = 0; i < sortedRecords.length - 1; i++) {
-    const current = new Date(sortedRecords[i].finishTime!).getTime();
-    const previous = new Date(sortedRecords[i + 1].finishTime!).getTime();
-    totalInterval += current - previous;
+function toChangeEntry(commit: ADOCommit): ChangeEntry {
+  const comment = commit.comment.split('\n')[0];
+  const pr = comment.match(/^Merged PR (\d+)/i);
+  const pullRequestId = pr ? parseInt(pr[1], 10) : undefined;
+  return {
+    commitId: commit.commitId,
+    comment,
+    author: commit.author.name,
+    authorEmail: commit.author.email,
+    date: commit.author.date,
+    url: commit.remoteUrl,
+    pullRequestId,
+    pullRequestUrl: pullRequestId && commit.remoteUrl ? commit.remoteUrl.replace(/\/commit\/[0-9a-f]+$/i, '/pullrequest/' + pullRequestId) : undefined,
+    workItemIds: (commit.workItems || []).map(w => parseInt(w.id, 10)).filter(id => !isNaN(id)),
+  };
+}
+
+// Aggregate region statuses: all regions included / some included / none included
+function aggregateRegions(env: EnvironmentConfig, regions: EnvironmentDeploymentStatus[]): EnvironmentDeploymentStatus {
+  const apiCalls = sumApiCalls(regions);
+  const included = regions.filter(r => r.status === 'included');
+  const coverage: RegionCoverage = included.length === 0 ? 'none' : included.length === regions.length ? 'all' : 'partial';
+
+  if (coverage === 'all') {
+    // Stage is complete once the LAST region received the PR
+    const latest = [...included].sort((a, b) =>
+      new Date(b.buildTimestamp || 0).getTime() - new Date(a.buildTimestamp || 0).getTime())[0];
+    return {
+      environment: env,
+      status: 'included',
+      buildId: latest.buildId,
+      buildNumber: latest.buildNumber,
+      buildTimestamp: latest.buildTimestamp,
+      buildUrl: latest.buildUrl,
+      via: included.find(r => r.via)?.via,
+      reverted: included.some(r => r.reverted) || undefined,
+      coverage,
+      regions,
+      apiCalls,
+    };
   }
-  const avgInterval = totalInterval / (sortedRecords.length - 1);
-  
-  // Estimate next deployment: last deployment + average interval
-  const lastDeployment = new Date(sortedRecords[0].finishTime!);
-  const nextDeployment = new Date(lastDeployment.getTime() + avgInterval);
-  
-  // If next deployment is in the past, add another interval
-  const now = new Date();
-  if (nextDeployment < now) {
-    const intervalsToAdd = Math.ceil((now.getTime() - nextDeployment.getTime()) / avgInterval);
-    nextDeployment.setTime(nextDeployment.getTime() + intervalsToAdd * avgInterval);
+
+  // Surface the first failed region so a partial or missing stage isn't mistaken for a clean answer
+  const error = regions.find(r => r.error)?.error;
+  if (coverage === 'partial') return { environment: env, status: 'partially-deployed', coverage, regions, apiCalls, error };
+
+  // No region has the PR now - if some had it, say so rather than 'not yet'
+  const rolledBack = regions.filter(r => r.status === 'rolled-back');
+  if (rolledBack.length > 0) {
+    const latest = [...rolledBack].sort((a, b) => rollbackTime(b) - rollbackTime(a))[0];
+    return { environment: env, status: 'rolled-back', rollback: latest.rollback, coverage, regions, apiCalls, error };
   }
-  
-  return nextDeployment.toISOString();
+
+  let status: EnvironmentDeploymentStatus['status'] = 'not-included';
+  if (regions.some(r => r.status === 'in-progress')) status = 'in-progress';
+  else if (regions.every(r => r.status === 'error')) status = 'error';
+  else if (regions.every(r => r.status === 'no-builds')) status = 'no-builds';
+
+  return { environment: env, status, coverage, regions, apiCalls, error };
+}
+
+function rollbackTime(status: EnvironmentDeploymentStatus): number {
+  return status.rollback ? new Date(status.rollback.finishTime || status.rollback.startTime).getTime() : 0;
+}
+
+function sumApiCalls(statuses: EnvironmentDeploymentStatus[]): number {
+  return statuses.reduce((sum, s) => sum + (s.apiCalls || 0), 0);
 }
 
-async function fetchPRInfo(parsed: ParsedPRUrl, headers: Record<string, string>): Promise<PRInfo> {
-  const baseUrl = 'https://dev.azure.com/' + parsed.organization + '/' + encodeURIComponent(parsed.project);
+// Attach ETAs to stages the PR hasn't reached yet, from each stage's deployment history (already fetched - context hits, failed ones included)
+async function attachPredictions(
+  repo: RepoContext,
+  train: TrainDefinition,
+  environments: EnvironmentDeploymentStatus[],
+  history: HistoryWindow,
+  headers: Record<string, string>,
+  context: CheckContext
+): Promise<EnvironmentDeploymentStatus[]> {
+  const samplesFor = async (env: EnvironmentConfig): Promise<DeploymentSample[]> => {
+    if (env.regions) return (await Promise.all(env.regions.map(samplesFor))).flat();
+    if (!env.id) return [];
+    const records = await fetchDeploymentHistory(repo, env.id, history, headers, context).catch(() => []);
+    return records
+      .filter(r => r.owner?.id && r.result?.toLowerCase() === 'succeeded')
+      .map(r => ({ buildId: r.owner.id, deployedAt: r.finishTime || r.startTime }));
+  };
+
+  const samples = await Promise.all(environments.map(e => samplesFor(e.environment)));
+  const etas = predictStageEtas(
+    environments.map((e, i) => ({ status: e.status, arrivedAt: e.buildTimestamp, samples: samples[i] })),
+    train.freezeWindows
+  );
+  return environments.map((e, i) => {
+    const eta = etas[i];
+    return eta ? { ...e, eta, expectedDate: eta.expected } : e;
+  });
+}
+
+async function fetchPullRequest(parsed: ParsedPRUrl, headers: Record<string, string>): Promise<ADOPRResponse> {
+  const baseUrl = adoUrl(parsed.organization) + '/' + encodeURIComponent(parsed.project);
   const url = baseUrl + '/_apis/git/repositories/' + encodeURIComponent(parsed.repository) + '/pullRequests/' + parsed.pullRequestId + '?api-version=' + API_VERSION;
-  
-  const response = await fetch(url, { headers });
-  if (!response.ok) {
-    if (response.status === 401) throw new Error('Authentication failed.');
-    if (response.status === 403) throw new Error('Access denied.');
-    if (response.status === 404) throw new Error('PR not found.');
-    throw new Error('ADO API Error: ' + response.status);
-  }
 
-  const data: ADOPRResponse = await response.json();
+  const response = await adoFetch(url, { headers, call: 'Pull request', notFoundMessage: 'PR not found.' });
+  return response.json();
+}
+
+function toPRInfo(parsed: ParsedPRUrl, data: ADOPRResponse): PRInfo {
   return {
     id: data.pullRequestId,
     title: data.title,
@@ -180,114 +948,348 @@ async function fetchPRInfo(parsed: ParsedPRUrl, headers: Record<string, string>)
   };
 }
 
+function toReviewerVote(vote: number): ReviewerVote {
+  if (vote >= 10) return 'approved';
+  if (vote >= 5) return 'approved-with-suggestions';
+  if (vote <= -10) return 'rejected';
+  if (vote <= -5) return 'waiting-for-author';
+  return 'no-vote';
+}
+
+const POLICY_STATUSES: Record<string, PolicyStatus> = {
+  approved: 'approved',
+  rejected: 'rejected',
+  running: 'running',
+  queued: 'queued',
+  notapplicable: 'not-applicable',
+  broken: 'broken',
+};
+
+// Reviews, branch policies and the next cut - policy or cut failures don't hide the rest
+async function fetchPreMergeStatus(
+  parsed: ParsedPRUrl,
+  pullRequest: ADOPRResponse,
+  repo: RepoContext,
+  train: TrainDefinition,
+  ladder: EnvironmentConfig[],
+  history: HistoryWindow,
+  headers: Record<string, string>,
+  context: CheckContext
+): Promise<PreMergeStatus> {
+  const reviewers: PRReviewer[] = (pullRequest.reviewers || [])
+    .map(r => ({ name: r.displayName, vote: toReviewerVote(r.vote), required: !!r.isRequired }))
+    .sort((a, b) => Number(b.required) - Number(a.required));
+
+  let policies: PRPolicyCheck[] = [];
+  let policyError: AdoErrorInfo | undefined;
+  const [, nextCut] = await Promise.all([
+    fetchPolicyChecks(parsed, pullRequest, headers).then(
+      checks => { policies = checks; },
+      error => { policyError = toErrorInfo(error, 'Policy evaluations'); }
+    ),
+    predictTrainCut(repo, train, ladder, history, headers, context).catch(() => undefined),
+  ]);
+
+  return {
+    isDraft: !!pullRequest.isDraft,
+    mergeStatus: pullRequest.mergeStatus,
+    reviewers,
+    policies,
+    policyError,
+    nextCut,
+  };
+}
+
+async function fetchPolicyChecks(parsed: ParsedPRUrl, pullRequest: ADOPRResponse, headers: Record<string, string>): Promise<PRPolicyCheck[]> {
+  const projectUrl = adoUrl(parsed.organization) + '/' + encodeURIComponent(parsed.project);
+  const artifactId = 'vstfs:///CodeReview/CodeReviewId/' + pullRequest.repository.project.id + '/' + pullRequest.pullRequestId;
+  const url = projectUrl + '/_apis/policy/evaluations?artifactId=' + encodeURIComponent(artifactId) + '&api-version=7.1-preview.1';
+  const response = await adoFetch(url, { headers, call: 'Policy evaluations' });
+  const data = await response.json();
+
+  return ((data.value || []) as ADOPolicyEvaluation[])
+    .filter(e => e.configuration.isEnabled)
+    .map(e => ({
+      name: e.configuration.settings?.displayName || e.configuration.type.displayName,
+      status: POLICY_STATUSES[e.status.toLowerCase()] || 'queued',
+      blocking: e.configuration.isBlocking,
+      url: e.context?.buildId ? projectUrl + '/_build/results?buildId=' + e.context.buildId : undefined,
+    }));
+}
+
+// Next build cut of the cut stage, from when its recently deployed builds started
+async function predictTrainCut(
+  repo: RepoContext,
+  train: TrainDefinition,
+  ladder: EnvironmentConfig[],
+  history: HistoryWindow,
+  headers: Record<string, string>,
+  context: CheckContext
+): Promise<PreMergeStatus['nextCut']> {
+  const stage = ladder.find(env => env.name === (train.cutStage || DEFAULT_CUT_STAGE)) || ladder[0];
+  if (!stage?.id) return undefined;
+
+  const records = await fetchDeploymentHistory(repo, stage.id, history, headers, context);
+  const buildIds = [...new Set(records.filter(r => r.owner?.id && r.result?.toLowerCase() === 'succeeded').map(r => r.owner.id))]
+    .slice(0, CUT_SAMPLE_SIZE);
+  const builds = await Promise.all(buildIds.map(id => fetchBuild(repo, id, headers, context).catch(() => null)));
+  const cuts = builds
+    .filter((build): build is ADOBuild => !!build?.startTime)
+    .map(build => ({ buildId: build.id, deployedAt: build.startTime }));
+
+  const expected = predictNextCut(cuts, train.freezeWindows);
+  return expected ? { environment: stage.displayName, expected } : undefined;
+}
+
+// Resolve ADO environment ids by name for environments whose ids are not known upfront
+async function resolveEnvironments(
+  repo: RepoContext,
+  environments: EnvironmentConfig[],
+  headers: Record<string, string>,
+  context: CheckContext
+): Promise<EnvironmentConfig[]> {
+  const needsLookup = (env: EnvironmentConfig): boolean =>
+    env.regions ? env.regions.some(needsLookup) : !env.id && !!env.adoName;
+  if (!environments.some(needsLookup)) return environments;
+
+  const url = adoUrl(repo.organization) + '/' + encodeURIComponent(repo.project) + '/_apis/distributedtask/environments?$top=500&api-version=7.1-preview.1';
+  const adoEnvironments = await cachedLookup(context.environments, url, CACHE_TTL.environments, async () => {
+    const response = await adoFetch(url, { headers, call: 'Environment list' });
+    const data = await response.json();
+    return ((data.value || []) as ADOEnvironment[]).map(e => ({ id: e.id, name: e.name }));
+  });
+
+  const resolve = (env: EnvironmentConfig): EnvironmentConfig => {
+    if (env.regions) return { ...env, regions: env.regions.map(resolve) };
+    if (env.id || !env.adoName) return env;
+    const match = adoEnvironments.find(e => e.name.toLowerCase() === env.adoName!.toLowerCase());
+    return match ? { ...env, id: match.id } : env;
+  };
+  return environments.map(resolve);
+}
+
 async function checkEnvironmentStatus(
-  organization: string,
+  repo: RepoContext,
   environmentId: number,
   prMergeCommit: string,
-  headers: Record<string, string>
-): Promise<{ status: EnvironmentDeploymentStatus['status']; buildId?: number; buildNumber?: string; buildTimestamp?: string; buildUrl?: string; expectedDate?: string; }> {
-  try {
-    const recordsUrl = 'https://dev.azure.com/' + organization + '/' + POWERBI_CLIENTS_PROJECT + '/_apis/distributedtask/environments/' + environmentId + '/environmentdeploymentrecords?top=10&api-version=7.1-preview.1';
-    const recordsResponse = await fetch(recordsUrl, { headers });
-    if (!recordsResponse.ok) return { status: 'error' };
+  history: HistoryWindow,
+  headers: Record<string, string>,
+  context: CheckContext
+): Promise<EnvironmentCheck> {
+  const counter: CallCounter = { calls: 0 };
+  let activity: DeploymentActivity = {};
+  const done = (check: EnvironmentCheck): EnvironmentCheck => ({ ...check, ...activity, apiCalls: counter.calls });
 
-    const recordsData = await recordsResponse.json();
-    const records: ADOEnvironmentDeploymentRecord[] = recordsData.value || [];
-    if (records.length === 0) return { status: 'no-builds' };
+  try {
+    const records = await fetchDeploymentHistory(repo, environmentId, history, headers, context, counter);
+    if (records.length === 0) return done({ status: 'no-builds' });
+    activity = deploymentActivity(records);
 
-    // Collect unique succeeded build IDs and their timestamps
+    // Unique succeeded builds keyed by their FIRST deployment (records are newest first, so later entries win)
+    // Only deployments after the merge are candidates
+    const sinceTime = history.since ? new Date(history.since).getTime() : 0;
     const buildMap = new Map<number, ADOEnvironmentDeploymentRecord>();
-    const succeededRecords: ADOEnvironmentDeploymentRecord[] = [];
     for (const record of records) {
-      if (record.owner?.id && record.result?.toLowerCase() === 'succeeded') {
-        if (!buildMap.has(record.owner.id)) {
-          buildMap.set(record.owner.id, record);
-          succeededRecords.push(record);
-        }
+      if (record.owner?.id && record.result?.toLowerCase() === 'succeeded' && deploymentTime(record) >= sinceTime) {
+        buildMap.set(record.owner.id, record);
       }
     }
 
     const inProgressRecord = records.find(r => !r.finishTime);
-    const buildEntries = Array.from(buildMap.entries());
-    
-    if (buildEntries.length === 0) {
-      return inProgressRecord ? { status: 'in-progress' } : { status: 'not-included' };
+    const notYet = (): EnvironmentCheck => (inProgressRecord ? { status: 'in-progress' } : { status: 'not-included' });
+
+    const probe = async (buildId: number) => {
+      const build = await fetchBuild(repo, buildId, headers, context, counter);
+      if (!build?.sourceVersion) return null;
+      const included = await isPRIncludedInBuild(repo, prMergeCommit, build.sourceVersion, headers, context, counter);
+      return included ? build : null;
+    };
+
+    // Walk back from the live deployment to the latest one whose build has the PR. Build ids don't follow ancestry
+    // (a release-branch hotfix build can be newer than main builds and still lack the commit), so every step is a
+    // merge-base check - cached per build, and usually the live build alone answers. Deployments without the PR
+    // above one with it took it out again: the oldest of them is the rollback
+    let latestWith: ADOBuild | null = null;
+    let rollback: ADOEnvironmentDeploymentRecord | undefined;
+    for (const record of records) {
+      if (!record.owner?.id || record.result?.toLowerCase() !== 'succeeded' || deploymentTime(record) < sinceTime) continue;
+      latestWith = await probe(record.owner.id);
+      if (latestWith) break;
+      rollback = record;
     }
+    if (!latestWith) return done(notYet());
 
-    // Fetch ALL builds in PARALLEL
-    const buildPromises = buildEntries.map(async ([buildId, record]) => {
-      const build = await fetchBuild(organization, buildId, headers);
-      return { build, record };
-    });
-    const buildResults = await Promise.all(buildPromises);
-
-    // Check merge bases for ALL builds in PARALLEL
-    const ancestorPromises = buildResults
-      .filter(({ build }) => build?.sourceVersion)
-      .map(async ({ build, record }) => {
-        const isAncestor = await isPRIncludedInBuild(organization, prMergeCommit, build!.sourceVersion, headers);
-        return { build: build!, record, isAncestor };
-      });
-    const ancestorResults = await Promise.all(ancestorPromises);
-
-    // Find all builds that include the PR
-    const includedBuilds = ancestorResults.filter(r => r.isAncestor);
-    
-    if (includedBuilds.length > 0) {
-      // Sort by timestamp to find the EARLIEST deployment (when PR first arrived)
-      includedBuilds.sort((a, b) => {
-        const timeA = new Date(a.record.finishTime || a.record.startTime).getTime();
-        const timeB = new Date(b.record.finishTime || b.record.startTime).getTime();
-        return timeA - timeB; // Ascending - earliest first
-      });
-      
-      const earliest = includedBuilds[0];
-      return {
-        status: 'included',
-        buildId: earliest.build.id,
-        buildNumber: earliest.build.buildNumber,
-        buildTimestamp: earliest.record.finishTime || earliest.record.startTime,
-        buildUrl: earliest.build._links?.web?.href,
-      };
+    // When it landed: the first build with the PR. Builds cut from one branch have it from some build on, so
+    // binary-search the builds up to the latest one with it (oldest first) - a stray hotfix build only shifts the date
+    const latestId = latestWith.id;
+    const candidates = Array.from(buildMap.entries())
+      .map(([buildId, record]) => ({ buildId, record }))
+      .filter(c => c.buildId <= latestId)
+      .sort((a, b) => a.buildId - b.buildId);
+
+    let first = candidates.length - 1;
+    let firstBuild: ADOBuild = latestWith;
+    let lo = 0;
+    let hi = first - 1;
+    while (lo <= hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      const build = await probe(candidates[mid].buildId);
+      if (build) {
+        first = mid;
+        firstBuild = build;
+        hi = mid - 1;
+      } else {
+        lo = mid + 1;
+      }
     }
 
-    if (inProgressRecord) return { status: 'in-progress' };
-    
-    // Calculate expected date based on actual deployment frequency
-    const expectedDate = calculateNextDeploymentDate(succeededRecords);
-    return { status: 'not-included', expectedDate };
+    const record = candidates[first].record;
+    const included: EnvironmentCheck = {
+      status: 'included',
+      buildId: firstBuild.id,
+      buildNumber: firstBuild.buildNumber,
+      buildTimestamp: record.finishTime || record.startTime,
+      buildUrl: firstBuild._links?.web?.href,
+    };
+    if (rollback) return done({ ...included, status: 'rolled-back', rollback: toDeploymentRun(rollback) });
+    return done(included);
   } catch (error) {
     console.error('Error checking environment ' + environmentId + ':', error);
-    return { status: 'error' };
+    return done({ status: 'error', error: toErrorInfo(error, 'Environment ' + environmentId) });
   }
 }
 
-async function fetchBuild(organization: string, buildId: number, headers: Record<string, string>): Promise<ADOBuild | null> {
-  const url = 'https://dev.azure.com/' + organization + '/' + POWERBI_CLIENTS_PROJECT + '/_apis/build/builds/' + buildId + '?api-version=' + API_VERSION;
-  try {
-    const response = await fetch(url, { headers });
-    if (!response.ok) return null;
-    return await response.json();
-  } catch {
-    return null;
-  }
+function deploymentTime(record: ADOEnvironmentDeploymentRecord): number {
+  return new Date(record.finishTime || record.startTime).getTime();
 }
 
-async function isPRIncludedInBuild(organization: string, prMergeCommit: string, buildSourceVersion: string, headers: Record<string, string>): Promise<boolean> {
-  const url = 'https://dev.azure.com/' + organization + '/' + POWERBI_CLIENTS_PROJECT + '/_apis/git/repositories/' + POWERBI_CLIENTS_REPO_GUID + '/commits/' + prMergeCommit + '/mergebases?otherCommitId=' + buildSourceVersion + '&api-version=' + API_VERSION;
-  try {
-    const response = await fetch(url, { headers });
-    if (!response.ok) return false;
+// Latest succeeded, currently running and just-failed deployments (records are newest first)
+function deploymentActivity(records: ADOEnvironmentDeploymentRecord[]): DeploymentActivity {
+  const last = records.find(r => r.owner?.id && r.result?.toLowerCase() === 'succeeded');
+  const running = records.find(r => r.owner?.id && !r.finishTime);
+  const finished = records.find(r => r.owner?.id && r.finishTime);
+  const failed = finished && finished.result?.toLowerCase() === 'failed' ? finished : undefined;
+  return {
+    lastDeployment: last ? toDeploymentRun(last) : undefined,
+    inProgressDeployment: running ? toDeploymentRun(running) : undefined,
+    failedDeployment: failed ? toDeploymentRun(failed) : undefined,
+  };
+}
+
+function toDeploymentRun(record: ADOEnvironmentDeploymentRecord): DeploymentRun {
+  return {
+    buildId: record.owner.id,
+    buildNumber: record.owner.name,
+    startTime: record.startTime,
+    finishTime: record.finishTime,
+    url: record.owner._links?.web?.href,
+  };
+}
+
+function toHistoryEntry(record: ADOEnvironmentDeploymentRecord): DeploymentHistoryEntry {
+  const result = record.result?.toLowerCase();
+  let outcome: DeploymentResult = 'other';
+  if (!record.finishTime) outcome = 'in-progress';
+  else if (result === 'succeeded' || result === 'failed' || result === 'canceled') outcome = result;
+  return { ...toDeploymentRun(record), result: outcome };
+}
+
+// Walk deployment records (newest first) page by page until they predate `since` or maxRecords is reached
+async function fetchDeploymentHistory(
+  repo: RepoContext,
+  environmentId: number,
+  history: HistoryWindow,
+  headers: Record<string, string>,
+  context: CheckContext,
+  counter?: CallCounter
+): Promise<ADOEnvironmentDeploymentRecord[]> {
+  const sinceTime = history.since ? new Date(history.since).getTime() : null;
+  const records: ADOEnvironmentDeploymentRecord[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const page = await fetchDeploymentRecordsPage(repo, environmentId, continuationToken, headers, context, counter);
+
+    records.push(...page.records);
+    continuationToken = page.continuationToken;
+
+    const oldest = page.records[page.records.length - 1];
+    if (sinceTime !== null && oldest && new Date(oldest.startTime).getTime() < sinceTime) break;
+  } while (continuationToken && records.length < history.maxRecords);
+
+  return records.slice(0, history.maxRecords);
+}
 
+interface DeploymentRecordsPage {
+  records: ADOEnvironmentDeploymentRecord[];
+  continuationToken?: string;
+}
+
+async function fetchDeploymentRecordsPage(
+  repo: RepoContext,
+  environmentId: number,
+  continuationToken: string | undefined,
+  headers: Record<string, string>,
+  context: CheckContext,
+  counter?: CallCounter
+): Promise<DeploymentRecordsPage> {
+  const url = adoUrl(repo.organization) + '/' + encodeURIComponent(repo.project) + '/_apis/distributedtask/environments/' + environmentId + '/environmentdeploymentrecords?top=' + RECORDS_PAGE_SIZE
+    + (continuationToken ? '&continuationToken=' + encodeURIComponent(continuationToken) : '') + '&api-version=7.1-preview.1';
+  return cachedLookup(context.records, url, CACHE_TTL.records, async () => {
+    if (counter) counter.calls++;
+    const response = await adoFetch(url, { headers, call: 'Deployment records', notFoundMessage: 'Environment ' + environmentId + ' not found.' });
+    const data = await response.json();
+    return {
+      records: (data.value || []) as ADOEnvironmentDeploymentRecord[],
+      continuationToken: response.headers.get('x-ms-continuationtoken') || undefined,
+    };
+  });
+}
+
+async function fetchBuild(
+  repo: RepoContext,
+  buildId: number,
+  headers: Record<string, string>,
+  context: CheckContext,
+  counter?: CallCounter
+): Promise<ADOBuild> {
+  const url = adoUrl(repo.organization) + '/' + encodeURIComponent(repo.project) + '/_apis/build/builds/' + buildId + '?api-version=' + API_VERSION;
+  // Only finished builds are immutable; keep just the fields we use
+  return cachedLookup(context.builds, url, CACHE_TTL.build, async () => {
+    if (counter) counter.calls++;
+    const response = await adoFetch(url, { headers, call: 'Build ' + buildId, notFoundMessage: 'Build not found in ' + repo.project + '.' });
+    const data: ADOBuild = await response.json();
+    return {
+      id: data.id,
+      buildNumber: data.buildNumber,
+      status: data.status,
+      result: data.result,
+      sourceVersion: data.sourceVersion,
+      sourceBranch: data.sourceBranch,
+      startTime: data.startTime,
+      finishTime: data.finishTime,
+      _links: data._links?.web ? { web: { href: data._links.web.href } } : undefined,
+    };
+  }, build => build.status === 'completed');
+}
+
+async function isPRIncludedInBuild(
+  repo: RepoContext,
+  prMergeCommit: string,
+  buildSourceVersion: string,
+  headers: Record<string, string>,
+  context: CheckContext,
+  counter?: CallCounter
+): Promise<boolean> {
+  const url = adoUrl(repo.organization) + '/' + encodeURIComponent(repo.project) + '/_apis/git/repositories/' + repo.repositoryId + '/commits/' + prMergeCommit + '/mergebases?otherCommitId=' + buildSourceVersion + '&api-version=' + API_VERSION;
+  // A merge-base answer for a (commit, sourceVersion) pair never changes - failures throw and stay uncached
+  return cachedLookup(context.mergeBases, url, CACHE_TTL.mergeBase, async () => {
+    if (counter) counter.calls++;
+    const response = await adoFetch(url, { headers, call: 'Merge base check' });
     const data = await response.json();
     const mergeBases: Array<{ commitId: string }> = data.value || [];
 
-    return mergeBases.some(mb => 
-      mb.commitId.toLowerCase() === prMergeCommit.toLowerCase() ||
-      mb.commitId.toLowerCase().startsWith(prMergeCommit.toLowerCase().substring(0, 7)) ||
-      prMergeCommit.toLowerCase().startsWith(mb.commitId.toLowerCase().substring(0, 7))
-    );
-  } catch {
-    return false;
-  }
+    // The commit is an ancestor of the build iff it IS the merge base - full SHAs only, prefixes can collide
+    return mergeBases.some(mb => mb.commitId.toLowerCase() === prMergeCommit.toLowerCase());
+  });
 }
@@ -0,0 +1,106 @@
+// PERSISTENT CACHE - ADO lookups (builds, merge bases, deployment records) kept in IndexedDB, or a store set by the runtime
+
+const DB_NAME = 'train-tracker';
+const DB_VERSION = 1;
+const STORE_NAME = 'ado-cache';
+
+// Time-to-live per lookup type - null means immutable (never expires)
+export const CACHE_TTL = {
+  build: null,
+  mergeBase: null,
+  environments: 60 * 60 * 1000,   // Environment list per project - 1 hour
+  records: 2 * 60 * 1000,         // Deployment records change with every rollout - 2 minutes
+  branchCommits: 5 * 60 * 1000,   // Recent branch history for cherry-pick / revert matching - 5 minutes
+} as const;
+
+export interface CacheEntry {
+  key: string;
+  value: unknown;
+  expiresAt: number | null;
+}
+
+// Where entries live - the browser uses IndexedDB, the CLI a JSON file
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  put(entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Open (or create) the cache database; resolves null where IndexedDB is unavailable
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(db: IDBDatabase, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T | undefined> {
+  return new Promise(resolve => {
+    try {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => resolve(undefined);
+    } catch {
+      resolve(undefined);
+    }
+  });
+}
+
+const indexedDbStore: CacheStore = {
+  async get(key) {
+    const db = await openDatabase();
+    return db ? runRequest<CacheEntry>(db, 'readonly', store => store.get(key)) : undefined;
+  },
+  async put(entry) {
+    const db = await openDatabase();
+    if (db) await runRequest(db, 'readwrite', store => store.put(entry));
+  },
+  async delete(key) {
+    const db = await openDatabase();
+    if (db) await runRequest(db, 'readwrite', store => store.delete(key));
+  },
+  async clear() {
+    const db = await openDatabase();
+    if (db) await runRequest(db, 'readwrite', store => store.clear());
+  },
+};
+
+let activeStore: CacheStore = indexedDbStore;
+
+// Swap the backing store (outside the browser, where IndexedDB doesn't exist)
+export function setCacheStore(store: CacheStore): void {
+  activeStore = store;
+}
+
+// Cached value, or undefined when missing or expired
+export async function cacheGet<T>(key: string): Promise<T | undefined> {
+  const entry = await activeStore.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt !== null && entry.expiresAt < Date.now()) {
+    activeStore.delete(key);
+    return undefined;
+  }
+  return entry.value as T;
+}
+
+export async function cacheSet(key: string, value: unknown, ttl: number | null): Promise<void> {
+  await activeStore.put({ key, value, expiresAt: ttl === null ? null : Date.now() + ttl });
+}
+
+export async function clearCache(): Promise<void> {
+  await activeStore.clear();
+}
@@ -0,0 +1,77 @@
+// PR COLLECTIONS - Named sets of PRs for release reviews, kept in localStorage and moved between machines as JSON
+
+import { PRCollection } from '../types';
+
+const COLLECTIONS_KEY = 'train_tracker_collections';
+const EXPORT_VERSION = 1;
+
+// Exported file format
+export interface CollectionsExport {
+  version: number;
+  exportedAt: string;
+  collections: PRCollection[];
+}
+
+export function loadCollections(): PRCollection[] {
+  try {
+    const raw = localStorage.getItem(COLLECTIONS_KEY);
+    return raw ? (JSON.parse(raw) as PRCollection[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCollections(collections: PRCollection[]): void {
+  localStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+}
+
+export function createCollection(name: string, prUrls: string[], trainId?: string): PRCollection {
+  const now = new Date().toISOString();
+  return { id: 'collection-' + Date.now().toString(36), name: name.trim(), prUrls, trainId, createdAt: now, updatedAt: now };
+}
+
+// Pull PR URLs out of pasted text (one per line, or separated by spaces / commas)
+export function parsePRList(text: string): string[] {
+  const urls = text.split(/[\s,]+/).map(u => u.trim()).filter(u => /\/pullrequest\/\d+/i.test(u));
+  return Array.from(new Set(urls));
+}
+
+export function downloadCollections(collections: PRCollection[]): void {
+  const data: CollectionsExport = { version: EXPORT_VERSION, exportedAt: new Date().toISOString(), collections };
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = collections.length === 1
+    ? 'collection-' + collections[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') + '.json'
+    : 'train-tracker-collections.json';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Validate an exported file - throws a readable error for anything else
+export function parseCollectionsExport(json: unknown): PRCollection[] {
+  const data = json as Partial<CollectionsExport>;
+  if (!data || data.version !== EXPORT_VERSION || !Array.isArray(data.collections)) {
+    throw new Error('Not a Train Tracker collections export (version ' + EXPORT_VERSION + ').');
+  }
+  return data.collections.map((c, index) => {
+    if (!c || typeof c.name !== 'string' || !Array.isArray(c.prUrls) || c.prUrls.some(u => typeof u !== 'string')) {
+      throw new Error('Collection ' + (index + 1) + ' needs a name and a list of PR URLs.');
+    }
+    const now = new Date().toISOString();
+    return {
+      id: typeof c.id === 'string' ? c.id : 'collection-' + Date.now().toString(36) + '-' + index,
+      name: c.name,
+      prUrls: c.prUrls,
+      trainId: typeof c.trainId === 'string' ? c.trainId : undefined,
+      createdAt: c.createdAt || now,
+      updatedAt: c.updatedAt || now,
+    };
+  });
+}
+
+// Imported collections replace local ones with the same id, the rest are added
+export function mergeCollections(existing: PRCollection[], imported: PRCollection[]): PRCollection[] {
+  const ids = new Set(imported.map(c => c.id));
+  return [...existing.filter(c => !ids.has(c.id)), ...imported];
+}
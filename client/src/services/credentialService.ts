@@ -0,0 +1,126 @@
+// CREDENTIALS - Where the ADO token lives: this tab only, this browser session, or encrypted with a passphrase
+
+import { Credential, CredentialStorage } from '../types';
+
+const SESSION_KEY = 'train_tracker_credential';
+const ENCRYPTED_KEY = 'train_tracker_credential_encrypted';
+const LEGACY_PAT_KEY = 'ado_pat';             // Plain-text PAT written by earlier versions
+const PBKDF2_ITERATIONS = 310000;
+
+// AES-GCM ciphertext plus what's needed to derive the key again
+interface EncryptedSecret {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+interface StoredEncryptedCredential extends EncryptedSecret {
+  kind: Credential['kind'];
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+export function isJwt(token: string): boolean {
+  return /^eyJ[\w-]+\.[\w-]+\.[\w-]+$/.test(token.trim());
+}
+
+// Expiry of an Entra ID access token - PATs don't carry theirs
+export function jwtExpiry(token: string): string | undefined {
+  if (!isJwt(token)) return undefined;
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? new Date(payload.exp * 1000).toISOString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptSecret(secret: string, passphrase: string): Promise<EncryptedSecret> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(secret));
+  return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+// Throws on a wrong passphrase - AES-GCM authentication fails
+export async function decryptSecret(secret: EncryptedSecret, passphrase: string): Promise<string> {
+  try {
+    const key = await deriveKey(passphrase, fromBase64(secret.salt));
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(secret.iv) as BufferSource },
+      key,
+      fromBase64(secret.data) as BufferSource
+    );
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new Error('Wrong passphrase.');
+  }
+}
+
+// Credential kept for this browser session (session-only mode)
+export function loadSessionCredential(): Credential | null {
+  try {
+    const raw = sessionStorage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as Credential) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function hasEncryptedCredential(): boolean {
+  return localStorage.getItem(ENCRYPTED_KEY) !== null;
+}
+
+// Keep a credential in exactly one place - switching storage clears the others
+export async function storeCredential(credential: Credential, storage: CredentialStorage, passphrase?: string): Promise<void> {
+  forgetCredential();
+  if (storage === 'session') {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(credential));
+  } else if (storage === 'encrypted') {
+    if (!passphrase) throw new Error('A passphrase is required to store the token encrypted.');
+    const stored: StoredEncryptedCredential = { kind: credential.kind, ...await encryptSecret(credential.token, passphrase) };
+    localStorage.setItem(ENCRYPTED_KEY, JSON.stringify(stored));
+  }
+}
+
+export async function unlockCredential(passphrase: string): Promise<Credential> {
+  const raw = localStorage.getItem(ENCRYPTED_KEY);
+  if (!raw) throw new Error('No stored token.');
+  const stored = JSON.parse(raw) as StoredEncryptedCredential;
+  return { kind: stored.kind, token: await decryptSecret(stored, passphrase) };
+}
+
+export function forgetCredential(): void {
+  sessionStorage.removeItem(SESSION_KEY);
+  localStorage.removeItem(ENCRYPTED_KEY);
+  localStorage.removeItem(LEGACY_PAT_KEY);
+}
+
+// Move a plain-text PAT left by earlier versions out of localStorage (kept for this session only)
+export function takeLegacyPat(): string | null {
+  const pat = localStorage.getItem(LEGACY_PAT_KEY);
+  if (!pat) return null;
+  localStorage.removeItem(LEGACY_PAT_KEY);
+  sessionStorage.setItem(SESSION_KEY, JSON.stringify({ kind: 'pat', token: pat } satisfies Credential));
+  return pat;
+}
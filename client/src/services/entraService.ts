@@ -0,0 +1,68 @@
+// ENTRA ID SIGN-IN - MSAL popup sign-in for an Azure DevOps access token instead of a PAT
+
+import { AccountInfo, AuthenticationResult, PublicClientApplication } from '@azure/msal-browser';
+import { Credential } from '../types';
+
+// Azure DevOps resource - .default grants the delegated permissions consented for the app registration
+const ADO_SCOPE = '499b84ac-1321-427f-aa17-267ca6975798/.default';
+
+const CLIENT_ID = import.meta.env.VITE_ENTRA_CLIENT_ID;
+const TENANT_ID = import.meta.env.VITE_ENTRA_TENANT_ID || 'organizations';
+
+// Sign-in is only offered when an app registration is configured
+export const entraConfigured = !!CLIENT_ID;
+
+let appPromise: Promise<PublicClientApplication> | null = null;
+
+function getApp(): Promise<PublicClientApplication> {
+  if (!CLIENT_ID) return Promise.reject(new Error('Entra ID sign-in is not configured (VITE_ENTRA_CLIENT_ID).'));
+  if (!appPromise) {
+    const app = new PublicClientApplication({
+      auth: {
+        clientId: CLIENT_ID,
+        authority: 'https://login.microsoftonline.com/' + TENANT_ID,
+        redirectUri: window.location.origin,
+      },
+      cache: { cacheLocation: 'sessionStorage' }, // MSAL's own token cache - gone with the session
+    });
+    appPromise = app.initialize().then(() => app);
+  }
+  return appPromise;
+}
+
+function toCredential(result: AuthenticationResult): Credential {
+  return {
+    kind: 'entra',
+    token: result.accessToken,
+    account: result.account?.username,
+    expiresOn: result.expiresOn?.toISOString(),
+  };
+}
+
+async function acquireSilently(app: PublicClientApplication, account: AccountInfo): Promise<Credential> {
+  return toCredential(await app.acquireTokenSilent({ scopes: [ADO_SCOPE], account }));
+}
+
+export async function signInWithEntra(): Promise<Credential> {
+  const app = await getApp();
+  const login = await app.loginPopup({ scopes: [ADO_SCOPE] });
+  return login.accessToken ? toCredential(login) : acquireSilently(app, login.account);
+}
+
+// Token for an existing sign-in (startup, refresh before expiry) - null when interaction is needed
+export async function restoreEntraSession(): Promise<Credential | null> {
+  if (!entraConfigured) return null;
+  try {
+    const app = await getApp();
+    const account = app.getAllAccounts()[0];
+    return account ? await acquireSilently(app, account) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function signOutEntra(): Promise<void> {
+  if (!entraConfigured) return;
+  const app = await getApp();
+  await app.clearCache();
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsv, formatMarkdown, toDeploymentReport } from './exportService';
+import { EnvironmentDeploymentStatus, PRDeploymentResult } from '../types';
+
+const MERGE = 'c1'.repeat(20);
+const PICK = 'e1'.repeat(20);
+const REVERT = 'd1'.repeat(20);
+
+const env = (name: string, displayName = name) => ({ id: 1, name, displayName, order: 1 });
+
+const DAILY: EnvironmentDeploymentStatus = {
+  environment: env('Daily'),
+  status: 'included',
+  buildNumber: '20260106.1',
+  buildUrl: 'https://dev.azure.com/org/project/_build/results?buildId=101',
+  buildTimestamp: '2026-01-06T06:00:00.000Z',
+  reverted: true,
+};
+
+const CANARY: EnvironmentDeploymentStatus = {
+  environment: env('Canary'),
+  status: 'rolled-back',
+  buildNumber: '20260106.1',
+  buildTimestamp: '2026-01-08T06:00:00.000Z',
+  rollback: { buildId: 100, buildNumber: '20260104.1', startTime: '2026-01-09T04:00:00.000Z' },
+};
+
+const AMERICA: EnvironmentDeploymentStatus = {
+  environment: env('PROD-America', 'America'),
+  status: 'included',
+  buildNumber: '20260107.9',
+  buildTimestamp: '2026-01-08T06:00:00.000Z',
+  via: { commitId: PICK, comment: 'Cherry-pick', author: 'Author', date: '2026-01-07T00:00:00.000Z', workItemIds: [], branch: 'refs/heads/releases/2026.01' },
+};
+
+const EUROPE: EnvironmentDeploymentStatus = {
+  environment: env('PROD-Europe', 'Europe'),
+  status: 'not-included',
+  eta: { expected: '2026-01-12T06:00:00.000Z', earliest: '2026-01-11T06:00:00.000Z', latest: '2026-01-14T06:00:00.000Z', confidence: 'medium', basis: 'promotion' },
+  failedDeployment: { buildId: 200, buildNumber: '20260107.9', startTime: '2026-01-09T04:00:00.000Z', finishTime: '2026-01-09T05:00:00.000Z' },
+};
+
+const PROD: EnvironmentDeploymentStatus = {
+  environment: { ...env('PROD'), id: 0 },
+  status: 'partially-deployed',
+  coverage: 'partial',
+  regions: [AMERICA, EUROPE],
+};
+
+const RESULT: PRDeploymentResult = {
+  prInfo: {
+    id: 4242,
+    title: '=HYPERLINK("x") | "quoted", title',
+    status: 'completed',
+    sourceRefName: 'refs/heads/feature/4242',
+    targetRefName: 'refs/heads/main',
+    repository: { id: 'repo-id', name: 'repo' },
+    createdBy: { displayName: '@mention' },
+    creationDate: '2026-01-02T09:00:00.000Z',
+    closedDate: '2026-01-05T10:00:00.000Z',
+    mergeCommitId: MERGE,
+    url: 'https://dev.azure.com/org/project/_git/repo/pullrequest/4242',
+  },
+  environments: [DAILY, CANARY, PROD],
+  supportedRepo: true,
+  revert: { commitId: REVERT, comment: 'Revert', author: 'Author', date: '2026-01-09T00:00:00.000Z', workItemIds: [], branch: 'refs/heads/main' },
+};
+
+describe('toDeploymentReport', () => {
+  it('maps results onto the versioned report schema', () => {
+    const report = toDeploymentReport([RESULT], new Date('2026-01-10T00:00:00.000Z'));
+
+    expect(report).toMatchObject({ schema: 'train-tracker/deployment-report', version: 1, generatedAt: '2026-01-10T00:00:00.000Z' });
+    const [pr] = report.pullRequests;
+    expect(pr).toMatchObject({ id: 4242, author: '@mention', mergeCommit: MERGE, mergedAt: '2026-01-05T10:00:00.000Z', revertedBy: REVERT });
+    expect(pr.stages.map(s => s.status)).toEqual(['included', 'rolled-back', 'partially-deployed']);
+    expect(pr.stages[0]).toMatchObject({ deployedAt: '2026-01-06T06:00:00.000Z', reverted: true });
+    expect(pr.stages[1]).toMatchObject({ deployedAt: '2026-01-08T06:00:00.000Z', rolledBackTo: '20260104.1' });
+    expect(pr.stages[2].regions).toEqual([
+      expect.objectContaining({ name: 'PROD-America', viaCherryPick: PICK, eta: undefined }),
+      expect.objectContaining({ name: 'PROD-Europe', eta: '2026-01-12T06:00:00.000Z', etaConfidence: 'medium', failedBuildNumber: '20260107.9' }),
+    ]);
+  });
+});
+
+describe('formatCsv', () => {
+  const [header, ...rows] = formatCsv([RESULT]).trimEnd().split('\r\n');
+  const columns = header.split(',');
+
+  it('writes one row per stage and region', () => {
+    expect(rows).toHaveLength(5);
+    const stageAndRegion = rows.map(row => {
+      const fields = row.match(/("([^"]|"")*"|[^,]*)(,|$)/g)!.map(f => f.replace(/,$/, ''));
+      return fields[columns.indexOf('stage')] + '/' + fields[columns.indexOf('region')];
+    });
+    expect(stageAndRegion).toEqual(['Daily/', 'Canary/', 'PROD/', 'PROD/PROD-America', 'PROD/PROD-Europe']);
+  });
+
+  it('quotes commas and quotes, and neutralizes formulas', () => {
+    expect(rows[0]).toContain(',"\'=HYPERLINK(""x"") | ""quoted"", title",');
+    expect(rows.every(row => !row.includes(',=') && !row.startsWith('='))).toBe(true);
+  });
+
+  it('marks rolled-back and reverted stages', () => {
+    expect(rows[0]).toContain(',yes,');
+    expect(rows[1]).toContain(',rolled-back,');
+    expect(rows[1]).toContain(',20260104.1,');
+  });
+});
+
+describe('formatMarkdown', () => {
+  const markdown = formatMarkdown([RESULT]);
+
+  it('escapes pipes in the title and flags the revert', () => {
+    expect(markdown).toContain('[#4242 =HYPERLINK("x") \\| "quoted", title](' + RESULT.prInfo.url + ')');
+    expect(markdown).toContain('reverted by `d1d1d1d1`');
+  });
+
+  it('lists regions under their stage with notes', () => {
+    const rows = markdown.split('\n').filter(line => line.startsWith('| ') && !line.startsWith('| Stage'));
+    expect(rows.map(row => row.split(' | ')[0])).toEqual(['| Daily', '| Canary', '| PROD', '| ↳ America', '| ↳ Europe']);
+    expect(rows[0]).toContain('revert live');
+    expect(rows[1]).toContain('rolled-back');
+    expect(rows[1]).toContain('rolled back to 20260104.1');
+    expect(rows[3]).toContain('via cherry-pick `e1e1e1e1`');
+    expect(rows[4]).toContain('(medium)');
+    expect(rows[4]).toContain('last deployment (20260107.9) failed');
+  });
+});
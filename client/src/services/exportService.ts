@@ -0,0 +1,151 @@
+// RESULT EXPORT - PR checks as Markdown tables for chat, CSV for spreadsheets and a versioned JSON report for tooling
+
+import { DeploymentReport, DeploymentReportPR, DeploymentReportStage, EnvironmentDeploymentStatus, PRDeploymentResult } from '../types';
+import { describeError, getStatusIcon } from '../utils/status';
+import { formatDateTime } from '../utils/format';
+
+export type ExportFormat = 'markdown' | 'csv' | 'json';
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mime: string }> = {
+  markdown: { extension: 'md', mime: 'text/markdown' },
+  csv: { extension: 'csv', mime: 'text/csv' },
+  json: { extension: 'json', mime: 'application/json' },
+};
+
+const CSV_COLUMNS = [
+  'pr_id', 'pr_title', 'pr_url', 'pr_status', 'merge_commit', 'merged_at', 'train',
+  'stage', 'region', 'status', 'build_number', 'build_url', 'deployed_at', 'eta', 'eta_confidence',
+  'via_cherry_pick', 'reverted', 'rolled_back_to', 'failed_build_number', 'error',
+];
+
+function toReportStage(env: EnvironmentDeploymentStatus): DeploymentReportStage {
+  const eta = env.eta?.expected || env.expectedDate;
+  return {
+    name: env.environment.name,
+    displayName: env.environment.displayName,
+    status: env.status,
+    buildNumber: env.buildNumber,
+    buildUrl: env.buildUrl,
+    deployedAt: env.status === 'included' || env.status === 'rolled-back' ? env.buildTimestamp : undefined,
+    eta: env.status !== 'included' ? eta : undefined,
+    etaConfidence: env.status !== 'included' ? env.eta?.confidence : undefined,
+    viaCherryPick: env.via?.commitId,
+    reverted: env.reverted,
+    rolledBackTo: env.rollback?.buildNumber,
+    failedBuildNumber: env.failedDeployment?.buildNumber,
+    error: env.error ? describeError(env.error) : undefined,
+    regions: env.regions?.map(toReportStage),
+  };
+}
+
+function toReportPR(result: PRDeploymentResult): DeploymentReportPR {
+  const { prInfo } = result;
+  return {
+    id: prInfo.id,
+    title: prInfo.title,
+    url: prInfo.url,
+    repository: prInfo.repository.name,
+    status: prInfo.status,
+    author: prInfo.createdBy.displayName,
+    mergeCommit: prInfo.mergeCommitId,
+    mergedAt: prInfo.mergeCommitId ? prInfo.closedDate : undefined,
+    train: result.train?.id,
+    revertedBy: result.revert?.commitId,
+    stages: result.environments.map(toReportStage),
+  };
+}
+
+export function toDeploymentReport(results: PRDeploymentResult[], now: Date = new Date()): DeploymentReport {
+  return {
+    schema: 'train-tracker/deployment-report',
+    version: 1,
+    generatedAt: now.toISOString(),
+    pullRequests: results.map(toReportPR),
+  };
+}
+
+// Stage and region rows, regions right after their stage
+function flattenStages(stages: DeploymentReportStage[]): Array<{ stage: DeploymentReportStage; group?: DeploymentReportStage }> {
+  return stages.flatMap(stage => [{ stage }, ...(stage.regions || []).map(region => ({ stage: region, group: stage }))]);
+}
+
+// Titles and names come from ADO - a leading = + - @ (or tab / CR) would run as a formula in Excel, so it's escaped with '
+function csvField(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = "'" + text;
+  return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+}
+
+// One row per PR and stage (and region) - pivots cleanly in a spreadsheet
+export function formatCsv(results: PRDeploymentResult[]): string {
+  const rows = toDeploymentReport(results).pullRequests.flatMap(pr => flattenStages(pr.stages).map(({ stage, group }) => [
+    pr.id, pr.title, pr.url, pr.status, pr.mergeCommit, pr.mergedAt, pr.train,
+    group ? group.name : stage.name, group ? stage.name : undefined, stage.status, stage.buildNumber, stage.buildUrl,
+    stage.deployedAt, stage.eta, stage.etaConfidence,
+    stage.viaCherryPick, stage.reverted ? 'yes' : undefined, stage.rolledBackTo, stage.failedBuildNumber, stage.error,
+  ]));
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Table cells can't hold pipes or line breaks
+function mdCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function mdStageDetails(stage: DeploymentReportStage): string[] {
+  const build = stage.buildNumber ? (stage.buildUrl ? '[' + stage.buildNumber + '](' + stage.buildUrl + ')' : stage.buildNumber) : '';
+  const note = [
+    stage.viaCherryPick ? 'via cherry-pick `' + stage.viaCherryPick.substring(0, 8) + '`' : '',
+    stage.rolledBackTo ? 'rolled back to ' + stage.rolledBackTo : '',
+    stage.reverted ? 'revert live' : '',
+    stage.failedBuildNumber ? 'last deployment (' + stage.failedBuildNumber + ') failed' : '',
+    stage.error ? mdCell(stage.error) : '',
+  ].filter(Boolean).join(' · ');
+  return [
+    build,
+    stage.deployedAt ? formatDateTime(stage.deployedAt) : '',
+    stage.eta ? '~' + formatDateTime(stage.eta) + (stage.etaConfidence ? ' (' + stage.etaConfidence + ')' : '') : '',
+    note,
+  ];
+}
+
+// Per PR: a title line and a stage table - pastes into Teams, Slack (as a snippet), ADO and GitHub
+export function formatMarkdown(results: PRDeploymentResult[]): string {
+  const sections = toDeploymentReport(results).pullRequests.map(pr => {
+    const header = '**[#' + pr.id + ' ' + mdCell(pr.title) + '](' + pr.url + ')** · ' + pr.repository + ' · '
+      + (pr.mergeCommit ? 'merged ' + (pr.mergedAt ? formatDateTime(pr.mergedAt) + ' ' : '') + 'as `' + pr.mergeCommit.substring(0, 8) + '`' : pr.status)
+      + (pr.revertedBy ? ' · ⚠️ reverted by `' + pr.revertedBy.substring(0, 8) + '`' : '');
+    if (pr.stages.length === 0) return header;
+
+    const rows = flattenStages(pr.stages).map(({ stage, group }) => '| ' + [
+      group ? '↳ ' + stage.displayName : stage.displayName,
+      getStatusIcon(stage.status) + ' ' + stage.status,
+      ...mdStageDetails(stage),
+    ].join(' | ') + ' |');
+    return [
+      header,
+      '',
+      '| Stage | Status | Build | Deployed | ETA | Notes |',
+      '|---|---|---|---|---|---|',
+      ...rows,
+    ].join('\n');
+  });
+  return sections.join('\n\n') + '\n';
+}
+
+export function formatReport(results: PRDeploymentResult[], format: ExportFormat): string {
+  if (format === 'markdown') return formatMarkdown(results);
+  if (format === 'csv') return formatCsv(results);
+  return JSON.stringify(toDeploymentReport(results), null, 2) + '\n';
+}
+
+// Save as a file (browser)
+export function downloadReport(results: PRDeploymentResult[], format: ExportFormat, name: string): void {
+  const type = FILE_TYPES[format];
+  const url = URL.createObjectURL(new Blob([formatReport(results, format)], { type: type.mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name + '.' + type.extension;
+  link.click();
+  URL.revokeObjectURL(url);
+}
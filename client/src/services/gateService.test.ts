@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { configureAdo, resetAdo } from './adoHttp';
+import { waitUntilIncluded } from './gateService';
+import { MockAdoServer, startMockAdoServer } from '../mock/adoMockServer';
+import { MERGE_COMMIT, MOCK_TRAIN, SCENARIOS } from '../mock/scenarios';
+
+let server: MockAdoServer;
+
+beforeAll(async () => {
+  server = await startMockAdoServer(SCENARIOS['merged-in-prod']);
+  configureAdo({ baseUrl: server.url, retryDelay: 0 });
+});
+
+afterAll(async () => {
+  resetAdo();
+  await server.close();
+});
+
+const gate = (scenario: string, subject: string, target: string) => {
+  server.use(SCENARIOS[scenario]);
+  return waitUntilIncluded(subject, 'mock-pat', { trains: [MOCK_TRAIN], organization: 'mockorg', target, interval: 0, timeout: 0 });
+};
+
+describe('waitUntilIncluded on a commit against the mock ADO server', () => {
+  it('passes once the target runs a build with the commit', async () => {
+    const result = await gate('merged-in-prod', MERGE_COMMIT.substring(0, 8), 'msit');
+
+    expect(result).toMatchObject({ target: 'MSIT', reached: true, timedOut: false, status: 'included', buildNumber: '20260106.1', polls: 1 });
+    // Short SHA resolved in the given organization, then checked against the full one
+    expect(server.requests[0]).toMatch(/^\/mockorg\/MockProject\/_apis\/git\/repositories\/mockrepo-id\/commits\/c1f00dca\?/);
+    expect(server.requests.some(r => r.includes('/commits/' + MERGE_COMMIT + '/mergebases'))).toBe(true);
+  });
+
+  it('times out while the target is stuck on an older build', async () => {
+    const result = await gate('stuck-in-canary', MERGE_COMMIT, 'Canary');
+
+    expect(result).toMatchObject({ target: 'Canary', reached: false, timedOut: true, status: 'not-included' });
+  });
+
+  it('fails fast on a commit the repository does not have', async () => {
+    await expect(gate('merged-in-prod', 'deadbeef', 'MSIT')).rejects.toMatchObject({ kind: 'not-found' });
+  });
+});
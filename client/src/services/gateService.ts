@@ -0,0 +1,111 @@
+// DEPLOYMENT GATE - Block until a PR or commit is included in a target environment, for pipelines and scripts
+
+import { AdoErrorInfo, EnvironmentDeploymentStatus, GateResult, InclusionStatus } from '../types';
+import { CheckOptions, checkCommitDeploymentStatus, checkPRDeploymentStatus, createCheckContext, parseLookupInput } from './adoService';
+import { AdoError, isPermanentError, toErrorInfo } from './adoHttp';
+
+export const GATE_DEFAULTS = {
+  interval: 60 * 1000,
+  timeout: 60 * 60 * 1000,
+} as const;
+
+export interface GateOptions extends CheckOptions {
+  target: string;        // Stage or region name / display name, e.g. MSIT
+  interval?: number;     // ms between polls
+  timeout?: number;      // ms before giving up
+  onPoll?: (poll: { at: string; status?: InclusionStatus; error?: AdoErrorInfo }) => void;
+}
+
+function flatten(environments: EnvironmentDeploymentStatus[]): EnvironmentDeploymentStatus[] {
+  return environments.flatMap(env => [env, ...flatten(env.regions || [])]);
+}
+
+// Stage or region by name or display name (case-insensitive)
+export function findStage(environments: EnvironmentDeploymentStatus[], name: string): EnvironmentDeploymentStatus | undefined {
+  const wanted = name.toLowerCase();
+  return flatten(environments).find(env =>
+    env.environment.name.toLowerCase() === wanted || env.environment.displayName.toLowerCase() === wanted);
+}
+
+export function stageNames(environments: EnvironmentDeploymentStatus[]): string[] {
+  return flatten(environments).map(env => env.environment.name);
+}
+
+// One check of a PR URL or commit SHA - other lookups can't be gated on
+async function checkSubject(subject: string, pat: string, options: CheckOptions): Promise<EnvironmentDeploymentStatus[]> {
+  const input = parseLookupInput(subject);
+  if (input.kind === 'pr') {
+    const result = await checkPRDeploymentStatus(input.prUrl, pat, options);
+    if (!result.supportedRepo) throw new Error(result.unsupportedMessage || 'Repository has no train definition.');
+    return result.environments;
+  }
+  if (input.kind === 'commit') return (await checkCommitDeploymentStatus(input.commitId, pat, options)).environments;
+  throw new Error('Only a PR URL or a commit SHA can be waited for.');
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Poll until the target includes the change or the timeout passes; throws on anything polling can't fix
+// (bad input, unknown target, auth / permission / not-found) - throttling, server and network failures are retried
+export async function waitUntilIncluded(subject: string, pat: string, options: GateOptions): Promise<GateResult> {
+  const { target, interval = GATE_DEFAULTS.interval, timeout = GATE_DEFAULTS.timeout, onPoll, ...checkOptions } = options;
+  const startedAt = new Date();
+  const deadline = startedAt.getTime() + timeout;
+  let polls = 0;
+  let status: InclusionStatus = 'not-included';
+  let targetName = target;
+  let error: AdoErrorInfo | undefined;
+
+  for (;;) {
+    const at = new Date().toISOString();
+    polls++;
+    try {
+      // Fresh context per poll - deployment records have to be re-read, the persistent cache still serves builds
+      const environments = await checkSubject(subject, pat, { ...checkOptions, context: createCheckContext() });
+      const stage = findStage(environments, target);
+      if (!stage) throw new Error('No stage named "' + target + '" - stages are: ' + stageNames(environments).join(', ') + '.');
+
+      targetName = stage.environment.displayName;
+      status = stage.status;
+      error = stage.error;
+      onPoll?.({ at, status, error });
+
+      if (status === 'included') {
+        return {
+          subject,
+          target: targetName,
+          reached: true,
+          timedOut: false,
+          status,
+          buildId: stage.buildId,
+          buildNumber: stage.buildNumber,
+          buildUrl: stage.buildUrl,
+          buildTimestamp: stage.buildTimestamp,
+          polls,
+          startedAt: startedAt.toISOString(),
+          finishedAt: new Date().toISOString(),
+        };
+      }
+    } catch (err) {
+      if (!(err instanceof AdoError) || isPermanentError(err)) throw err;
+      error = toErrorInfo(err, 'Deployment check');
+      onPoll?.({ at, error });
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return {
+        subject,
+        target: targetName,
+        reached: false,
+        timedOut: true,
+        status,
+        polls,
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        error,
+      };
+    }
+    await sleep(Math.min(interval, remaining));
+  }
+}
@@ -0,0 +1,108 @@
+import { IncomingHttpHeaders, Server, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { dispatchWatchEvents, sendToSink } from './notificationService';
+import { NotificationSink, WatchEvent } from '../types';
+
+// Local stand-in for webhook, Teams and Slack endpoints - records what arrives, /fail answers 500
+interface Received {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: unknown;
+}
+
+let server: Server;
+let baseUrl: string;
+const received: Received[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ path: req.url || '/', headers: req.headers, body: JSON.parse(body) });
+      res.writeHead(req.url === '/fail' ? 500 : 200).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = 'http://127.0.0.1:' + (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  received.length = 0;
+});
+
+const EVENT: WatchEvent = {
+  id: 'pr|MSIT|included|1',
+  prUrl: 'https://dev.azure.com/org/project/_git/repo/pullrequest/4242',
+  prTitle: '#4242 Add mock rollout fixtures',
+  environment: 'MSIT',
+  kind: 'included',
+  at: '2026-01-07T06:00:00.000Z',
+  buildNumber: '20260106.1',
+  url: 'https://dev.azure.com/org/project/_build/results?buildId=101',
+};
+
+const sink = (kind: NotificationSink['kind'], path = '/' + kind, enabled = true): NotificationSink =>
+  ({ id: kind + path, name: kind, kind, url: baseUrl + path, enabled });
+
+const bodyAt = (path: string) => received.find(r => r.path === path)?.body;
+
+describe('notification sinks against a local stand-in', () => {
+  it('posts the JSON webhook payload', async () => {
+    await sendToSink(sink('webhook'), EVENT);
+
+    expect(received[0].headers['content-type']).toBe('application/json');
+    expect(received[0].body).toEqual({ type: 'train-tracker.stage-change', summary: 'Reached MSIT in 20260106.1', event: EVENT });
+  });
+
+  it('posts a Teams adaptive card as a simple request', async () => {
+    await sendToSink(sink('teams'), { ...EVENT, kind: 'rolled-back', buildNumber: '20260104.1' });
+
+    expect(received[0].headers['content-type']).toMatch(/^text\/plain/);
+    expect(received[0].body).toMatchObject({
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        content: {
+          type: 'AdaptiveCard',
+          body: [
+            { type: 'TextBlock', text: 'MSIT rolled back to 20260104.1 - no longer live', color: 'Attention' },
+            { type: 'TextBlock', text: EVENT.prTitle },
+            { type: 'FactSet', facts: [{ title: 'Environment', value: 'MSIT' }, { title: 'Build', value: '20260104.1' }, { title: 'When', value: expect.any(String) }] },
+          ],
+          actions: [
+            { type: 'Action.OpenUrl', title: 'Open PR', url: EVENT.prUrl },
+            { type: 'Action.OpenUrl', title: 'Open run', url: EVENT.url },
+          ],
+        },
+      }],
+    });
+  });
+
+  it('posts Slack text and blocks', async () => {
+    await sendToSink(sink('slack'), EVENT);
+
+    expect(received[0].body).toEqual({
+      text: 'Reached MSIT in 20260106.1 - ' + EVENT.prTitle,
+      blocks: [
+        { type: 'section', text: { type: 'mrkdwn', text: ':white_check_mark: *Reached MSIT in 20260106.1*\n<' + EVENT.prUrl + '|' + EVENT.prTitle + '>' } },
+        { type: 'context', elements: [{ type: 'mrkdwn', text: '<' + EVENT.url + '|20260106.1> · ' + new Date(EVENT.at).toUTCString() }] },
+      ],
+    });
+  });
+
+  it('dispatches to the enabled, subscribed sinks only and survives a failing one', async () => {
+    const sinks = [sink('webhook', '/fail'), sink('webhook'), sink('slack'), sink('teams', '/teams', false)];
+
+    await dispatchWatchEvents([EVENT], sinks, sinks.map(s => s.id).filter(id => id !== 'slack/slack'));
+
+    expect(received.map(r => r.path).sort()).toEqual(['/fail', '/webhook']);
+    expect(bodyAt('/webhook')).toMatchObject({ summary: 'Reached MSIT in 20260106.1' });
+  });
+});
@@ -0,0 +1,133 @@
+// NOTIFICATION SINKS - Post watch events to chat channels and custom webhooks
+
+import { NotificationSink, NotificationSinkKind, WatchEvent } from '../types';
+import { describeWatchEvent } from './watchService';
+
+const SINKS_KEY = 'train_tracker_sinks';
+
+export const SINK_KINDS: { kind: NotificationSinkKind; label: string }[] = [
+  { kind: 'webhook', label: 'Webhook (JSON)' },
+  { kind: 'teams', label: 'Teams (adaptive card)' },
+  { kind: 'slack', label: 'Slack' },
+];
+
+export function loadSinks(): NotificationSink[] {
+  try {
+    const raw = localStorage.getItem(SINKS_KEY);
+    return raw ? (JSON.parse(raw) as NotificationSink[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSinks(sinks: NotificationSink[]): void {
+  localStorage.setItem(SINKS_KEY, JSON.stringify(sinks));
+}
+
+export function createSink(name: string, kind: NotificationSinkKind, url: string): NotificationSink {
+  return { id: kind + '-' + Date.now().toString(36), name: name || kind, kind, url, enabled: true };
+}
+
+function webhookPayload(event: WatchEvent) {
+  return { type: 'train-tracker.stage-change', summary: describeWatchEvent(event), event };
+}
+
+function teamsPayload(event: WatchEvent) {
+  const facts = [
+    { title: 'Environment', value: event.environment },
+    ...(event.buildNumber ? [{ title: 'Build', value: event.buildNumber }] : []),
+    { title: 'When', value: new Date(event.at).toUTCString() },
+  ];
+  const actions = [
+    { type: 'Action.OpenUrl', title: 'Open PR', url: event.prUrl },
+    ...(event.url ? [{ type: 'Action.OpenUrl', title: 'Open run', url: event.url }] : []),
+  ];
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body: [
+          {
+            type: 'TextBlock',
+            text: describeWatchEvent(event),
+            weight: 'Bolder',
+            size: 'Medium',
+            color: event.kind === 'included' ? 'Good' : 'Attention',
+            wrap: true,
+          },
+          { type: 'TextBlock', text: event.prTitle, wrap: true },
+          { type: 'FactSet', facts },
+        ],
+        actions,
+      },
+    }],
+  };
+}
+
+function slackPayload(event: WatchEvent) {
+  const icon = event.kind === 'included' ? ':white_check_mark:' : event.kind === 'rolled-back' ? ':leftwards_arrow_with_hook:' : ':x:';
+  const build = event.buildNumber
+    ? (event.url ? '<' + event.url + '|' + event.buildNumber + '>' : event.buildNumber) + ' · '
+    : '';
+  return {
+    text: describeWatchEvent(event) + ' - ' + event.prTitle,
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: icon + ' *' + describeWatchEvent(event) + '*\n<' + event.prUrl + '|' + event.prTitle + '>' } },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: build + new Date(event.at).toUTCString() }] },
+    ],
+  };
+}
+
+// Request body for a sink - exported so payloads can be previewed and checked against a local stand-in
+export function buildSinkPayload(kind: NotificationSinkKind, event: WatchEvent): unknown {
+  switch (kind) {
+    case 'teams': return teamsPayload(event);
+    case 'slack': return slackPayload(event);
+    default: return webhookPayload(event);
+  }
+}
+
+export async function sendToSink(sink: NotificationSink, event: WatchEvent, fetchImpl: typeof fetch = fetch): Promise<void> {
+  const body = JSON.stringify(buildSinkPayload(sink.kind, event));
+
+  if (sink.kind === 'webhook') {
+    const response = await fetchImpl(sink.url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+    if (!response.ok) throw new Error(sink.name + ' responded with ' + response.status + '.');
+    return;
+  }
+
+  // Teams and Slack webhooks don't answer CORS preflights: send a simple request (delivery can't be confirmed)
+  await fetchImpl(sink.url, { method: 'POST', mode: 'no-cors', headers: { 'Content-Type': 'text/plain' }, body });
+}
+
+// Post events to the enabled sinks a watch subscribed to - one failing sink doesn't stop the others
+export async function dispatchWatchEvents(
+  events: WatchEvent[],
+  sinks: NotificationSink[],
+  sinkIds: string[] = [],
+  fetchImpl: typeof fetch = fetch
+): Promise<void> {
+  const targets = sinks.filter(s => s.enabled && sinkIds.includes(s.id));
+  const sends = targets.flatMap(sink => events.map(event => sendToSink(sink, event, fetchImpl)));
+  const results = await Promise.allSettled(sends);
+  for (const result of results) {
+    if (result.status === 'rejected') console.error('Failed to send notification:', result.reason);
+  }
+}
+
+// Sample event for the test-send button
+export function createTestEvent(): WatchEvent {
+  return {
+    id: 'test|' + Date.now(),
+    prUrl: 'https://dev.azure.com/powerbi/PowerBIClients/_git/PowerBIClients/pullrequest/123456',
+    prTitle: '#123456 Test notification from Fabric Train Tracker',
+    environment: 'MSIT',
+    kind: 'included',
+    at: new Date().toISOString(),
+    buildNumber: '20241019.1',
+  };
+}
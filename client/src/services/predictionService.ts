@@ -0,0 +1,182 @@
+// ETA PREDICTION - Models each stage's cadence and promotion delay from deployment history
+
+import { DeploymentEta, EtaConfidence, FreezeWindow, InclusionStatus } from '../types';
+import { percentile } from '../utils/stats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_WEEKDAY_SHARE = 0.05;   // Weekdays with fewer deployments than this are treated as "no train"
+const MAX_SNAP_DAYS = 21;
+
+// A succeeded deployment of a build to a stage
+export interface DeploymentSample {
+  buildId: number;
+  deployedAt: string;
+}
+
+// Everything the predictor needs about one stage of the ladder
+export interface StagePredictionInput {
+  status: InclusionStatus;
+  arrivedAt?: string;           // When the PR reached this stage (included stages)
+  samples: DeploymentSample[];  // Succeeded deployments, any order
+}
+
+interface CadenceModel {
+  weekdayShare: number[];       // Share of deployments per weekday (0 = Sunday)
+  medianInterval: number;
+  lastDeployment: number;
+}
+
+interface DelayStats {
+  p25: number;
+  median: number;
+  p75: number;
+  count: number;
+}
+
+// Time range the PR is expected in a stage (anchor for the next stage)
+interface Anchor {
+  earliest: number;
+  expected: number;
+  latest: number;
+}
+
+// First deployment time per build
+function firstDeployments(samples: DeploymentSample[]): Map<number, number> {
+  const first = new Map<number, number>();
+  for (const sample of samples) {
+    const time = new Date(sample.deployedAt).getTime();
+    const existing = first.get(sample.buildId);
+    if (existing === undefined || time < existing) first.set(sample.buildId, time);
+  }
+  return first;
+}
+
+function buildCadenceModel(samples: DeploymentSample[]): CadenceModel | null {
+  const times = Array.from(firstDeployments(samples).values()).sort((a, b) => a - b);
+  if (times.length < 2) return null;
+
+  const weekdayCounts = [0, 0, 0, 0, 0, 0, 0];
+  for (const time of times) weekdayCounts[new Date(time).getDay()]++;
+
+  const intervals = times.slice(1).map((time, i) => time - times[i]).sort((a, b) => a - b);
+  return {
+    weekdayShare: weekdayCounts.map(count => count / times.length),
+    medianInterval: percentile(intervals, 0.5),
+    lastDeployment: times[times.length - 1],
+  };
+}
+
+// How long builds take to get from the previous stage to this one
+function promotionDelay(previous: DeploymentSample[], current: DeploymentSample[]): DelayStats | null {
+  const previousFirst = firstDeployments(previous);
+  const delays: number[] = [];
+  firstDeployments(current).forEach((time, buildId) => {
+    const upstream = previousFirst.get(buildId);
+    if (upstream !== undefined && time >= upstream) delays.push(time - upstream);
+  });
+  if (delays.length === 0) return null;
+
+  delays.sort((a, b) => a - b);
+  return { p25: percentile(delays, 0.25), median: percentile(delays, 0.5), p75: percentile(delays, 0.75), count: delays.length };
+}
+
+function inFreeze(time: number, freezeWindows: FreezeWindow[]): FreezeWindow | undefined {
+  return freezeWindows.find(w => time >= new Date(w.start).getTime() && time <= new Date(w.end).getTime());
+}
+
+// Move a time forward to a day the stage actually deploys on, outside any freeze window
+function snapToTrainDay(time: number, cadence: CadenceModel | null, freezeWindows: FreezeWindow[]): number {
+  let snapped = time;
+  for (let i = 0; i < MAX_SNAP_DAYS; i++) {
+    const freeze = inFreeze(snapped, freezeWindows);
+    if (freeze) {
+      snapped = new Date(freeze.end).getTime() + 1;
+      continue;
+    }
+    if (cadence && cadence.weekdayShare[new Date(snapped).getDay()] < MIN_WEEKDAY_SHARE) {
+      snapped += DAY_MS;
+      continue;
+    }
+    break;
+  }
+  return snapped;
+}
+
+// Next cadence slot after a given time: last deployment + k * median interval
+function nextCadenceSlot(cadence: CadenceModel, after: number): number {
+  if (cadence.medianInterval <= 0) return after;
+  const slots = Math.max(1, Math.ceil((after - cadence.lastDeployment) / cadence.medianInterval));
+  return cadence.lastDeployment + slots * cadence.medianInterval;
+}
+
+function confidenceFor(stats: DelayStats | null): EtaConfidence {
+  if (!stats || stats.count < 2) return 'low';
+  const spread = stats.median > 0 ? (stats.p75 - stats.p25) / stats.median : 0;
+  return stats.count >= 5 && spread <= 0.5 ? 'high' : 'medium';
+}
+
+// Predict an ETA for every stage the PR hasn't reached yet, chaining from the furthest stage it has reached
+export function predictStageEtas(
+  stages: StagePredictionInput[],
+  freezeWindows: FreezeWindow[] = [],
+  now: Date = new Date()
+): (DeploymentEta | undefined)[] {
+  const nowTime = now.getTime();
+  let anchor: Anchor | null = null;
+
+  return stages.map((stage, index) => {
+    if (stage.status === 'included' && stage.arrivedAt) {
+      const arrived = new Date(stage.arrivedAt).getTime();
+      anchor = { earliest: arrived, expected: arrived, latest: arrived };
+      return undefined;
+    }
+
+    const cadence = buildCadenceModel(stage.samples);
+    const delay = index > 0 && anchor ? promotionDelay(stages[index - 1].samples, stage.samples) : null;
+    let eta: Anchor;
+    let basis: DeploymentEta['basis'];
+
+    if (anchor && delay) {
+      // Typical promotion from the previous stage, never earlier than now
+      eta = {
+        earliest: Math.max(nowTime, anchor.earliest + delay.p25),
+        expected: Math.max(nowTime, anchor.expected + delay.median),
+        latest: Math.max(nowTime, anchor.latest + delay.p75),
+      };
+      basis = 'promotion';
+    } else if (cadence) {
+      // No promotion data: next train after the PR could be upstream
+      const from = Math.max(nowTime, anchor ? anchor.expected : nowTime);
+      const slot = nextCadenceSlot(cadence, from);
+      eta = { earliest: slot, expected: slot, latest: slot + cadence.medianInterval };
+      basis = 'cadence';
+    } else {
+      anchor = null;
+      return undefined;
+    }
+
+    eta = {
+      earliest: snapToTrainDay(eta.earliest, cadence, freezeWindows),
+      expected: snapToTrainDay(eta.expected, cadence, freezeWindows),
+      latest: snapToTrainDay(eta.latest, cadence, freezeWindows),
+    };
+    eta.latest = Math.max(eta.latest, eta.expected);
+    eta.earliest = Math.min(eta.earliest, eta.expected);
+    anchor = eta;
+
+    return {
+      expected: new Date(eta.expected).toISOString(),
+      earliest: new Date(eta.earliest).toISOString(),
+      latest: new Date(eta.latest).toISOString(),
+      confidence: basis === 'promotion' ? confidenceFor(delay) : 'low',
+      basis,
+    };
+  });
+}
+
+// Next time a stage takes a new build (e.g. the Daily cut), from when its recent builds were cut
+export function predictNextCut(cuts: DeploymentSample[], freezeWindows: FreezeWindow[] = [], now: Date = new Date()): string | undefined {
+  const cadence = buildCadenceModel(cuts);
+  if (!cadence) return undefined;
+  return new Date(snapToTrainDay(nextCadenceSlot(cadence, now.getTime()), cadence, freezeWindows)).toISOString();
+}
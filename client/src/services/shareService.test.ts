@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSnapshot, encodeSnapshot, pendingShareAction, readShareRequest } from './shareService';
+import { PRDeploymentResult } from '../types';
+
+const PR_URL = 'https://dev.azure.com/mockorg/MockProject/_git/mockrepo/pullrequest/4242';
+
+const at = (path: string) => new URL(path, 'https://tracker.example.com') as unknown as Location;
+
+describe('pendingShareAction', () => {
+  it('runs a deep-linked lookup once the viewer unlocks a token', () => {
+    const request = readShareRequest(at('/pr/mockorg/MockProject/mockrepo/4242'));
+    expect(request).toEqual({ lookup: PR_URL });
+
+    // Trains still loading, then loaded with the token store still locked
+    expect(pendingShareAction(request, { trainsLoaded: false, token: '', handled: false })).toBeNull();
+    expect(pendingShareAction(request, { trainsLoaded: true, token: '', handled: false })).toBeNull();
+
+    // Unlocked (or signed in): the lookup runs - and only once
+    expect(pendingShareAction(request, { trainsLoaded: true, token: 'pat', handled: false })).toEqual({ kind: 'lookup', lookup: PR_URL });
+    expect(pendingShareAction(request, { trainsLoaded: true, token: 'other-pat', handled: true })).toBeNull();
+  });
+
+  it('shows a snapshot without waiting for a token', () => {
+    const request = readShareRequest(at('/#snapshot=zabc'));
+
+    expect(pendingShareAction(request, { trainsLoaded: true, token: '', handled: false })).toEqual({ kind: 'snapshot', snapshot: 'zabc' });
+  });
+
+  it('has nothing to do for a plain address', () => {
+    expect(pendingShareAction(readShareRequest(at('/')), { trainsLoaded: true, token: 'pat', handled: false })).toBeNull();
+  });
+});
+
+const RESULT: PRDeploymentResult = {
+  prInfo: {
+    id: 4242,
+    title: 'Add mock rollout fixtures',
+    status: 'completed',
+    sourceRefName: 'refs/heads/feature/4242',
+    targetRefName: 'refs/heads/main',
+    repository: { id: 'repo-id', name: 'mockrepo' },
+    createdBy: { displayName: 'Mock Author' },
+    creationDate: '2026-01-02T09:00:00.000Z',
+    mergeCommitId: 'c1'.repeat(20),
+    url: PR_URL,
+  },
+  environments: [{
+    environment: { id: 0, name: 'PROD', displayName: 'PROD', order: 1 },
+    status: 'included',
+    buildUrl: 'https://dev.azure.com/mockorg/MockProject/_build/results?buildId=101',
+    regions: [{
+      environment: { id: 4, name: 'PROD-America', displayName: 'America', order: 1 },
+      status: 'included',
+      buildUrl: 'javascript:alert(document.domain)',
+      lastDeployment: { buildId: 101, buildNumber: '20260106.1', startTime: '2026-01-08T04:00:00.000Z', url: 'data:text/html,<script>alert(1)</script>' },
+    }],
+  }],
+  supportedRepo: true,
+  revert: { commitId: 'd1'.repeat(20), comment: 'Revert', author: 'x', date: '2026-01-09T00:00:00.000Z', workItemIds: [], branch: 'refs/heads/main', pullRequestUrl: ' JavaScript:alert(1)' },
+};
+
+// Hand-made link payload, the way an attacker would write one
+const plain = (value: unknown) => 'j' + Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('decodeSnapshot', () => {
+  it('round-trips a snapshot', async () => {
+    const safe = { ...RESULT, environments: [], revert: undefined };
+    const snapshot = await decodeSnapshot(await encodeSnapshot(safe));
+
+    expect(snapshot.result.prInfo).toEqual(RESULT.prInfo);
+  });
+
+  it('drops script and data URLs from a crafted snapshot', async () => {
+    const snapshot = await decodeSnapshot(await encodeSnapshot(RESULT));
+
+    const prod = snapshot.result.environments[0];
+    expect(prod.buildUrl).toBe(RESULT.environments[0].buildUrl);
+    expect(prod.regions?.[0].buildUrl).toBeUndefined();
+    expect(prod.regions?.[0].lastDeployment).toEqual({ buildId: 101, buildNumber: '20260106.1', startTime: '2026-01-08T04:00:00.000Z' });
+    expect(snapshot.result.revert?.pullRequestUrl).toBeUndefined();
+    expect(JSON.stringify(snapshot)).not.toMatch(/javascript:|data:/i);
+  });
+
+  it('rejects snapshots whose PR link is not https or whose shape is off', async () => {
+    const damaged = /damaged or from an unsupported version/;
+    const snapshot = (result: unknown) => plain({ version: 1, createdAt: '2026-01-10T00:00:00.000Z', result });
+
+    await expect(decodeSnapshot(snapshot({ ...RESULT, prInfo: { ...RESULT.prInfo, url: 'javascript:alert(1)' } }))).rejects.toThrow(damaged);
+    await expect(decodeSnapshot(snapshot({ ...RESULT, environments: [{ status: 'included' }] }))).rejects.toThrow(damaged);
+    await expect(decodeSnapshot(snapshot({ ...RESULT, environments: 'none' }))).rejects.toThrow(damaged);
+    await expect(decodeSnapshot(plain({ version: 2, createdAt: '2026-01-10T00:00:00.000Z', result: RESULT }))).rejects.toThrow(damaged);
+    await expect(decodeSnapshot(snapshot(RESULT))).resolves.toMatchObject({ result: { prInfo: { id: 4242 } } });
+  });
+});
@@ -0,0 +1,145 @@
+// SHARE LINKS - Deep links that re-run a check with the viewer's PAT, and read-only snapshots that need none
+
+import { parsePRUrl } from './adoService';
+import { InclusionStatus, PRDeploymentResult } from '../types';
+
+const SNAPSHOT_VERSION = 1;
+
+// A PR check frozen at a point in time
+export interface DeploymentSnapshot {
+  version: number;
+  createdAt: string;
+  result: PRDeploymentResult;
+}
+
+// What the current address asks for: a lookup to run, or a snapshot to show
+export interface ShareRequest {
+  lookup?: string;
+  snapshot?: string;
+}
+
+// Supports /?pr=<PR URL or any lookup input>, /pr/<org>/<project>/<repo>/<id> and #snapshot=<data>
+export function readShareRequest(location: Location = window.location): ShareRequest {
+  const snapshot = location.hash.match(/^#snapshot=(.+)$/);
+  if (snapshot) return { snapshot: snapshot[1] };
+
+  const query = new URLSearchParams(location.search).get('pr');
+  if (query) return { lookup: query };
+
+  const path = location.pathname.match(/^\/pr\/([^/]+)\/([^/]+)\/([^/]+)\/(\d+)\/?$/);
+  if (path) {
+    return { lookup: 'https://dev.azure.com/' + path[1] + '/' + path[2] + '/_git/' + path[3] + '/pullrequest/' + path[4] };
+  }
+  return {};
+}
+
+// What a shared link still needs doing: a snapshot shows once the trains are in, a lookup also waits for a token
+// (memory storage starts empty, encrypted storage locked, Entra restores asynchronously) - each runs only once
+export function pendingShareAction(
+  request: ShareRequest,
+  state: { trainsLoaded: boolean; token: string; handled: boolean }
+): { kind: 'snapshot'; snapshot: string } | { kind: 'lookup'; lookup: string } | null {
+  if (state.handled || !state.trainsLoaded) return null;
+  if (request.snapshot) return { kind: 'snapshot', snapshot: request.snapshot };
+  if (request.lookup && state.token.trim()) return { kind: 'lookup', lookup: request.lookup };
+  return null;
+}
+
+// Canonical link for a PR check
+export function prShareLink(prUrl: string): string {
+  const parsed = parsePRUrl(prUrl);
+  const parts = [parsed.organization, parsed.project, parsed.repository, String(parsed.pullRequestId)];
+  return window.location.origin + '/pr/' + parts.map(encodeURIComponent).join('/');
+}
+
+// Link for any other lookup (commit, work item, build)
+export function lookupShareLink(input: string): string {
+  return window.location.origin + '/?pr=' + encodeURIComponent(input.trim());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Snapshot as URL-safe text - gzipped ("z" prefix) where the browser supports it, plain JSON ("j") otherwise
+export async function encodeSnapshot(result: PRDeploymentResult): Promise<string> {
+  const snapshot: DeploymentSnapshot = { version: SNAPSHOT_VERSION, createdAt: new Date().toISOString(), result };
+  const json = new TextEncoder().encode(JSON.stringify(snapshot));
+  if (typeof CompressionStream === 'undefined') return 'j' + toBase64Url(json);
+  return 'z' + toBase64Url(await transform(json, new CompressionStream('gzip')));
+}
+
+const STATUSES: InclusionStatus[] = ['included', 'partially-deployed', 'rolled-back', 'not-included', 'in-progress', 'no-builds', 'error'];
+
+const isHttps = (value: unknown) => {
+  try {
+    return typeof value === 'string' && new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Snapshots arrive in untrusted links and their URLs become hrefs - drop every *url / *Url / href that isn't https
+function stripUnsafeUrls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripUnsafeUrls);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value)
+    .filter(([key, field]) => !(/(url|href)$/i.test(key) && typeof field === 'string' && !isHttps(field)))
+    .map(([key, field]) => [key, stripUnsafeUrls(field)]));
+}
+
+function isStage(value: unknown): boolean {
+  const stage = value as { environment?: { name?: unknown; displayName?: unknown }; status?: unknown; regions?: unknown } | null;
+  return !!stage && typeof stage.environment?.name === 'string' && typeof stage.environment.displayName === 'string'
+    && STATUSES.includes(stage.status as InclusionStatus)
+    && (stage.regions === undefined || (Array.isArray(stage.regions) && stage.regions.every(isStage)));
+}
+
+// Shape the result view relies on - anything else is rejected rather than half-rendered
+function isSnapshot(value: unknown): value is DeploymentSnapshot {
+  const snapshot = value as DeploymentSnapshot | null;
+  const prInfo = snapshot?.result?.prInfo;
+  return !!snapshot && snapshot.version === SNAPSHOT_VERSION && typeof snapshot.createdAt === 'string'
+    && !!prInfo && typeof prInfo.id === 'number' && typeof prInfo.title === 'string' && isHttps(prInfo.url)
+    && typeof prInfo.repository?.name === 'string'
+    && Array.isArray(snapshot.result.environments) && snapshot.result.environments.every(isStage);
+}
+
+export async function decodeSnapshot(encoded: string): Promise<DeploymentSnapshot> {
+  try {
+    const bytes = fromBase64Url(encoded.slice(1));
+    const json = encoded[0] === 'z' ? await transform(bytes, new DecompressionStream('gzip')) : bytes;
+    const snapshot = JSON.parse(new TextDecoder().decode(json));
+    if (!isSnapshot(snapshot)) throw new Error('Unsupported snapshot');
+    return stripUnsafeUrls(snapshot) as DeploymentSnapshot;
+  } catch {
+    throw new Error('This snapshot link is damaged or from an unsupported version.');
+  }
+}
+
+export async function snapshotLink(result: PRDeploymentResult): Promise<string> {
+  return window.location.origin + '/#snapshot=' + await encodeSnapshot(result);
+}
+
+// Save the snapshot as a JSON file
+export function downloadSnapshot(result: PRDeploymentResult): void {
+  const snapshot: DeploymentSnapshot = { version: SNAPSHOT_VERSION, createdAt: new Date().toISOString(), result };
+  const url = URL.createObjectURL(new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'pr-' + result.prInfo.id + '-deployment-snapshot.json';
+  link.click();
+  URL.revokeObjectURL(url);
+}
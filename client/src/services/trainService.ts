@@ -0,0 +1,115 @@
+// TRAIN DEFINITIONS - Loaded at runtime from /trains.json so new trains need no code change
+
+import { EnvironmentConfig, FreezeWindow, TrainDefinition } from '../types';
+import bundledTrains from '../../public/trains.json';
+
+const TRAINS_URL = '/trains.json';
+
+interface RawEnvironment {
+  id?: number;
+  name?: string;
+  displayName?: string;
+  adoName?: string;
+  regions?: RawEnvironment[];
+}
+
+interface RawTrain {
+  id?: string;
+  name?: string;
+  repositoryPattern?: string;
+  project?: string;
+  repositoryId?: string;
+  repository?: string;
+  historyDepth?: number;
+  freezeWindows?: FreezeWindow[];
+  cutStage?: string;
+  environments?: RawEnvironment[];
+}
+
+// Validate and normalize raw train JSON (environment order follows list position)
+export function parseTrainDefinitions(data: unknown): TrainDefinition[] {
+  const rawTrains: RawTrain[] | undefined = Array.isArray(data)
+    ? data
+    : (data as { trains?: RawTrain[] } | null)?.trains;
+  if (!Array.isArray(rawTrains)) throw new Error('Train definitions must be a list of trains.');
+
+  return rawTrains.map((train, index) => {
+    if (!train.id || !train.name || !train.repositoryPattern || !train.project) {
+      throw new Error('Train #' + (index + 1) + ' is missing id, name, repositoryPattern or project.');
+    }
+    if (!Array.isArray(train.environments) || train.environments.length === 0) {
+      throw new Error('Train ' + train.id + ' has no environments.');
+    }
+    new RegExp(train.repositoryPattern, 'i'); // Throws on an invalid pattern
+    for (const window of train.freezeWindows || []) {
+      if (isNaN(new Date(window.start).getTime()) || isNaN(new Date(window.end).getTime())) {
+        throw new Error('Train ' + train.id + ' has a freeze window with an invalid start or end.');
+      }
+    }
+
+    const environments = train.environments.map((env, envIndex) => parseEnvironment(train.id!, env, envIndex));
+    if (train.cutStage && !environments.some(env => env.name === train.cutStage)) {
+      throw new Error('Train ' + train.id + ' cutStage ' + train.cutStage + ' is not one of its environments.');
+    }
+
+    return {
+      id: train.id,
+      name: train.name,
+      repositoryPattern: train.repositoryPattern,
+      project: train.project,
+      repositoryId: train.repositoryId,
+      repository: train.repository,
+      historyDepth: train.historyDepth,
+      freezeWindows: train.freezeWindows,
+      cutStage: train.cutStage,
+      environments,
+    };
+  });
+}
+
+// Grouped stages (regions) carry no id of their own - every region needs an id or adoName
+function parseEnvironment(trainId: string, env: RawEnvironment, index: number): EnvironmentConfig {
+  if (!env.name) throw new Error('Train ' + trainId + ' environment #' + (index + 1) + ' has no name.');
+
+  if (env.regions) {
+    if (!Array.isArray(env.regions) || env.regions.length === 0) {
+      throw new Error('Train ' + trainId + ' environment ' + env.name + ' has an empty region list.');
+    }
+    return {
+      id: 0,
+      name: env.name,
+      displayName: env.displayName || env.name,
+      order: index + 1,
+      regions: env.regions.map((region, regionIndex) => parseEnvironment(trainId, region, regionIndex)),
+    };
+  }
+
+  if (!env.id && !env.adoName) throw new Error('Train ' + trainId + ' environment ' + env.name + ' needs an id or adoName.');
+  return {
+    id: env.id || 0,
+    name: env.name,
+    displayName: env.displayName || env.name,
+    order: index + 1,
+    adoName: env.adoName,
+  };
+}
+
+// Built-in trains - the same trains.json, bundled, for when it can't be fetched (and for the CLI)
+export const DEFAULT_TRAINS: TrainDefinition[] = parseTrainDefinitions(bundledTrains);
+
+// Load train definitions, falling back to the built-in trains if the file is missing or invalid
+export async function loadTrainDefinitions(url: string = TRAINS_URL): Promise<TrainDefinition[]> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return DEFAULT_TRAINS;
+    return parseTrainDefinitions(await response.json());
+  } catch (error) {
+    console.error('Failed to load train definitions from ' + url + ':', error);
+    return DEFAULT_TRAINS;
+  }
+}
+
+// All trains whose repository rule matches the given repository name
+export function findTrainsForRepository(trains: TrainDefinition[], repository: string): TrainDefinition[] {
+  return trains.filter(train => new RegExp(train.repositoryPattern, 'i').test(repository));
+}
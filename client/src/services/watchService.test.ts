@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { WATCH_BACKOFF, applyWatchResult, createWatch } from './watchService';
+import { EnvironmentDeploymentStatus, InclusionStatus, PRDeploymentResult } from '../types';
+
+const PR_URL = 'https://dev.azure.com/org/project/_git/repo/pullrequest/4242';
+const T0 = new Date('2026-01-06T00:00:00.000Z');
+
+const minutesLater = (minutes: number) => new Date(T0.getTime() + minutes * 60 * 1000);
+
+function stage(name: string, status: InclusionStatus, extra: Partial<EnvironmentDeploymentStatus> = {}): EnvironmentDeploymentStatus {
+  return { environment: { id: 1, name, displayName: name, order: 1 }, status, buildNumber: '20260106.1', ...extra };
+}
+
+function result(environments: EnvironmentDeploymentStatus[]): PRDeploymentResult {
+  return {
+    prInfo: {
+      id: 4242,
+      title: 'Watched change',
+      status: 'completed',
+      sourceRefName: 'refs/heads/feature/4242',
+      targetRefName: 'refs/heads/main',
+      repository: { id: 'repo-id', name: 'repo' },
+      createdBy: { displayName: 'Author' },
+      creationDate: '2026-01-02T09:00:00.000Z',
+      closedDate: '2026-01-05T10:00:00.000Z',
+      mergeCommitId: 'c1'.repeat(20),
+      url: PR_URL,
+    },
+    environments,
+    supportedRepo: true,
+  };
+}
+
+describe('applyWatchResult', () => {
+  it('records the first check without events', () => {
+    const { watch, events } = applyWatchResult(createWatch(PR_URL), result([stage('Daily', 'included')]), T0);
+
+    expect(events).toEqual([]);
+    expect(watch.stages).toEqual([{ name: 'Daily', group: undefined, status: 'included', failedRun: undefined }]);
+  });
+
+  it('reports stages that got the PR and polls again soon', () => {
+    const first = applyWatchResult(createWatch(PR_URL), result([stage('Daily', 'included'), stage('MSIT', 'not-included')]), T0).watch;
+    const { watch, events } = applyWatchResult(first, result([stage('Daily', 'included'), stage('MSIT', 'in-progress')]), minutesLater(2));
+    expect(events).toEqual([]);
+    expect(watch.interval).toBe(Math.min(first.interval * WATCH_BACKOFF.factor, WATCH_BACKOFF.max));
+
+    const next = applyWatchResult(watch, result([stage('Daily', 'included'), stage('MSIT', 'not-included', {
+      failedDeployment: { buildId: 101, buildNumber: '20260106.1', startTime: '2026-01-06T04:00:00.000Z' },
+    })]), minutesLater(10));
+    expect(next.events.map(e => e.kind + ' ' + e.environment)).toEqual(['failed MSIT']);
+    expect(next.watch.interval).toBe(WATCH_BACKOFF.initial);
+  });
+
+  it('keeps checking a completed watch at the longest interval and reports a rollback', () => {
+    const done = applyWatchResult(createWatch(PR_URL, result([stage('Daily', 'included'), stage('MSIT', 'not-included')]), undefined),
+      result([stage('Daily', 'included'), stage('MSIT', 'included')]), T0);
+    expect(done.events.map(e => e.kind + ' ' + e.environment)).toEqual(['included MSIT']);
+    expect(done.watch).toMatchObject({ completed: true, interval: WATCH_BACKOFF.max, nextCheckAt: new Date(T0.getTime() + WATCH_BACKOFF.max).toISOString() });
+
+    const { watch, events } = applyWatchResult(done.watch, result([stage('Daily', 'included'), stage('MSIT', 'rolled-back', {
+      rollback: { buildId: 100, buildNumber: '20260104.1', startTime: '2026-01-06T08:00:00.000Z' },
+    })]), minutesLater(30));
+    expect(events).toEqual([expect.objectContaining({ kind: 'rolled-back', environment: 'MSIT', buildNumber: '20260104.1' })]);
+    expect(watch).toMatchObject({ completed: false, interval: WATCH_BACKOFF.initial });
+  });
+
+  it('reports a grouped stage once when its last region gets the PR', () => {
+    const prod = (europe: InclusionStatus, status: InclusionStatus) => stage('PROD', status, {
+      regions: [stage('PROD-America', 'included'), stage('PROD-Europe', europe)],
+    });
+    const first = applyWatchResult(createWatch(PR_URL), result([stage('Daily', 'not-included'), prod('not-included', 'partially-deployed')]), T0).watch;
+
+    const { events } = applyWatchResult(first, result([stage('Daily', 'included'), prod('included', 'included')]), minutesLater(2));
+    expect(events.map(e => e.kind + ' ' + e.environment)).toEqual(['included Daily', 'included PROD']);
+  });
+
+  it('reports a region on its own while its stage is still partial', () => {
+    const prod = (america: InclusionStatus, status: InclusionStatus) => stage('PROD', status, {
+      regions: [stage('PROD-America', america), stage('PROD-Europe', 'not-included')],
+    });
+    const first = applyWatchResult(createWatch(PR_URL), result([prod('not-included', 'not-included')]), T0).watch;
+
+    const { events } = applyWatchResult(first, result([prod('included', 'partially-deployed')]), minutesLater(2));
+    expect(events.map(e => e.kind + ' ' + e.environment)).toEqual(['included PROD-America']);
+  });
+});
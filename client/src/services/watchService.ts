@@ -0,0 +1,180 @@
+// WATCH LIST - Pinned PRs re-polled on a backoff schedule, diffed into timeline events and notifications
+
+import { EnvironmentDeploymentStatus, PRDeploymentResult, WatchedPR, WatchedStage, WatchEvent } from '../types';
+
+const WATCHES_KEY = 'train_tracker_watches';
+const EVENTS_KEY = 'train_tracker_watch_events';
+
+export const MAX_WATCH_EVENTS = 100;
+
+// Poll quickly right after something moved, back off while the train is quiet
+export const WATCH_BACKOFF = {
+  initial: 2 * 60 * 1000,
+  max: 30 * 60 * 1000,
+  factor: 2,
+} as const;
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function loadWatches(): WatchedPR[] {
+  return readJson<WatchedPR[]>(WATCHES_KEY, []);
+}
+
+export function saveWatches(watches: WatchedPR[]): void {
+  localStorage.setItem(WATCHES_KEY, JSON.stringify(watches));
+}
+
+export function loadWatchEvents(): WatchEvent[] {
+  return readJson<WatchEvent[]>(EVENTS_KEY, []);
+}
+
+export function saveWatchEvents(events: WatchEvent[]): void {
+  localStorage.setItem(EVENTS_KEY, JSON.stringify(events.slice(0, MAX_WATCH_EVENTS)));
+}
+
+// Flatten stages and their regions into the snapshot kept per watch
+function snapshotStages(environments: EnvironmentDeploymentStatus[], group?: string): WatchedStage[] {
+  return environments.flatMap(env => [
+    {
+      name: env.environment.name,
+      group,
+      status: env.status,
+      failedRun: env.failedDeployment ? env.failedDeployment.buildId + '@' + env.failedDeployment.startTime : undefined,
+    },
+    ...snapshotStages(env.regions || [], env.environment.name),
+  ]);
+}
+
+function flattenStatuses(environments: EnvironmentDeploymentStatus[]): EnvironmentDeploymentStatus[] {
+  return environments.flatMap(env => [env, ...flattenStatuses(env.regions || [])]);
+}
+
+// Merged PRs that every stage includes - still polled, at the longest interval, so rollbacks are noticed
+function isComplete(result: PRDeploymentResult): boolean {
+  return !!result.prInfo.mergeCommitId && result.environments.length > 0
+    && result.environments.every(e => e.status === 'included');
+}
+
+export function createWatch(prUrl: string, result?: PRDeploymentResult, trainId?: string): WatchedPR {
+  const now = new Date();
+  const completed = result ? isComplete(result) : false;
+  return {
+    prUrl,
+    title: result ? '#' + result.prInfo.id + ' ' + result.prInfo.title : prUrl,
+    trainId: trainId || result?.train?.id,
+    addedAt: now.toISOString(),
+    stages: result ? snapshotStages(result.environments) : [],
+    lastCheckedAt: result ? now.toISOString() : undefined,
+    nextCheckAt: new Date(now.getTime() + (result ? (completed ? WATCH_BACKOFF.max : WATCH_BACKOFF.initial) : 0)).toISOString(),
+    interval: completed ? WATCH_BACKOFF.max : WATCH_BACKOFF.initial,
+    completed,
+  };
+}
+
+// Compare a fresh check with the last snapshot: stages that flipped to included or were rolled back, deployments that just failed
+export function applyWatchResult(watch: WatchedPR, result: PRDeploymentResult, now: Date = new Date()): { watch: WatchedPR; events: WatchEvent[] } {
+  const title = '#' + result.prInfo.id + ' ' + result.prInfo.title;
+  const stages = snapshotStages(result.environments);
+  const statuses = flattenStatuses(result.environments);
+  const changes: Array<{ stage: WatchedStage; event: WatchEvent }> = [];
+
+  // The first snapshot only records the starting point
+  if (watch.stages.length > 0) {
+    stages.forEach((stage, index) => {
+      const previous = watch.stages.find(s => s.name === stage.name);
+      const status = statuses[index];
+      const change = (kind: WatchEvent['kind'], buildNumber?: string, url?: string) => changes.push({
+        stage,
+        event: {
+          id: watch.prUrl + '|' + stage.name + '|' + kind + '|' + now.getTime(),
+          prUrl: watch.prUrl,
+          prTitle: title,
+          environment: status.environment.displayName,
+          kind,
+          at: now.toISOString(),
+          buildNumber,
+          url,
+        },
+      });
+
+      if (stage.status === 'included' && previous?.status !== 'included') {
+        change('included', status.buildNumber, status.buildUrl);
+      }
+      if (stage.status === 'rolled-back' && previous?.status !== 'rolled-back') {
+        change('rolled-back', status.rollback?.buildNumber, status.rollback?.url);
+      }
+      if (stage.failedRun && stage.failedRun !== previous?.failedRun) {
+        change('failed', status.failedDeployment?.buildNumber, status.failedDeployment?.url);
+      }
+    });
+  }
+
+  // A grouped stage flips together with the region that tipped it - one event per stage, the group's
+  const stageChanges = new Set(changes.filter(c => !c.stage.group).map(c => c.stage.name + '|' + c.event.kind));
+  const events = changes
+    .filter(c => !c.stage.group || !stageChanges.has(c.stage.group + '|' + c.event.kind))
+    .map(c => c.event);
+
+  const completed = isComplete(result);
+  let interval = Math.min(watch.interval * WATCH_BACKOFF.factor, WATCH_BACKOFF.max);
+  if (completed) interval = WATCH_BACKOFF.max;
+  else if (events.length > 0) interval = WATCH_BACKOFF.initial;
+
+  return {
+    watch: {
+      ...watch,
+      title,
+      trainId: watch.trainId || result.train?.id,
+      stages,
+      lastCheckedAt: now.toISOString(),
+      nextCheckAt: new Date(now.getTime() + interval).toISOString(),
+      interval,
+      lastError: undefined,
+      completed,
+    },
+    events,
+  };
+}
+
+// Failed checks (expired PAT, network) back off like quiet ones
+export function applyWatchError(watch: WatchedPR, message: string, now: Date = new Date()): WatchedPR {
+  const interval = Math.min(watch.interval * WATCH_BACKOFF.factor, WATCH_BACKOFF.max);
+  return {
+    ...watch,
+    lastCheckedAt: now.toISOString(),
+    nextCheckAt: new Date(now.getTime() + interval).toISOString(),
+    interval,
+    lastError: message,
+  };
+}
+
+export function requestNotificationPermission(): void {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission();
+  }
+}
+
+export function describeWatchEvent(event: WatchEvent): string {
+  switch (event.kind) {
+    case 'included': return 'Reached ' + event.environment + (event.buildNumber ? ' in ' + event.buildNumber : '');
+    case 'rolled-back': return event.environment + ' rolled back' + (event.buildNumber ? ' to ' + event.buildNumber : '') + ' - no longer live';
+    default: return 'Deployment to ' + event.environment + ' failed' + (event.buildNumber ? ' (' + event.buildNumber + ')' : '');
+  }
+}
+
+// Desktop notification - silently skipped when not granted
+export function notifyWatchEvent(event: WatchEvent): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  const notification = new Notification(describeWatchEvent(event), { body: event.prTitle, tag: event.id });
+  notification.onclick = () => {
+    window.focus();
+    if (event.url) window.open(event.url, '_blank', 'noopener');
+  };
+}
@@ -1,25 +1,47 @@
 // =============================================================================
-// FE-ONLY TRAIN TRACKER TYPES
+// TRAIN TRACKER TYPES
 // =============================================================================
 
-// FE Environment Configuration (PLG environments in PowerBIClients project)
+// Environment Configuration (a single stage of a train)
 export interface EnvironmentConfig {
   id: number;
   name: string;
   displayName: string;
   order: number;
+  adoName?: string; // ADO environment name, used to resolve the id at runtime when it is not known upfront
+  regions?: EnvironmentConfig[]; // Grouped stage (e.g. PROD regions) - id is unused, each region is checked on its own
 }
 
-// FE Environments - VERIFIED CORRECT IDs from ADO
-export const FE_ENVIRONMENTS: EnvironmentConfig[] = [
-  { id: 172, name: 'EDOG', displayName: 'EDOG', order: 1 },
-  { id: 190, name: 'Daily', displayName: 'Daily', order: 2 },
-  { id: 191, name: 'DXT', displayName: 'DXT', order: 3 },
-  { id: 192, name: 'MSIT', displayName: 'MSIT', order: 4 },
-  { id: 310, name: 'Canary1', displayName: 'Canary1', order: 5 },
-  { id: 300, name: 'Canary2', displayName: 'Canary2', order: 6 },
-  { id: 231, name: 'PROD', displayName: 'PROD', order: 7 },  // PLG-PROD-AMERICA (has deployment records)
-];
+// Train Definition - ordered environment ladder for the repositories it matches
+export interface TrainDefinition {
+  id: string;
+  name: string;
+  repositoryPattern: string; // Case-insensitive regex matched against the PR repository name
+  project: string;           // ADO project owning the environments and builds
+  repositoryId?: string;     // Repository GUID for merge-base checks (defaults to the PR's repository)
+  repository?: string;       // Repository name for lookups without a PR, when repositoryId is not set
+  historyDepth?: number;     // Max deployment records to walk back per environment (default 200)
+  freezeWindows?: FreezeWindow[]; // Periods with no deployments (holidays, release freezes) - ETAs skip them
+  cutStage?: string;         // Stage whose build cut decides which train a merge catches (default: Daily, else the first stage)
+  environments: EnvironmentConfig[];
+}
+
+// Deployment freeze window (ISO timestamps, inclusive)
+export interface FreezeWindow {
+  start: string;
+  end: string;
+  reason?: string;
+}
+
+// Organization used for lookups that don't carry one (commit, work item, build)
+export const DEFAULT_ORGANIZATION = 'powerbi';
+
+// Repository a PR was opened against, used for build and ancestry lookups
+export interface RepoContext {
+  organization: string;
+  project: string;
+  repositoryId: string;
+}
 
 // Parsed PR URL
 export interface ParsedPRUrl {
@@ -52,6 +74,8 @@ export interface PRInfo {
 // Inclusion status for a single environment
 export type InclusionStatus = 
   | 'included'      // PR merge commit is ancestor of build's sourceVersion
+  | 'partially-deployed' // Grouped stage: PR reached some but not all regions
+  | 'rolled-back'   // PR was deployed, but the environment went back to an older build without it
   | 'not-included'  // PR merge commit is NOT ancestor yet
   | 'in-progress'   // Build currently in progress
   | 'no-builds'     // No builds found for this environment
@@ -66,12 +90,401 @@ export interface EnvironmentDeploymentStatus {
   buildTimestamp?: string;
   buildUrl?: string;
   expectedDate?: string; // Expected deployment date based on train schedule
+  eta?: DeploymentEta;   // Prediction with confidence range (stages the PR hasn't reached yet)
+  coverage?: RegionCoverage; // Grouped stages only - how many regions include the PR
+  regions?: EnvironmentDeploymentStatus[]; // Grouped stages only - per-region breakdown
+  apiCalls?: number; // ADO calls made for this stage (records, builds, merge bases - cache hits excluded)
+  lastDeployment?: DeploymentRun;       // Most recent succeeded deployment - the build live now, whether or not it carries the PR
+  rollback?: DeploymentRun;             // 'rolled-back' - the deployment of an older build that took the PR out
+  via?: EquivalentChange;               // Included through a cherry-pick of the PR rather than its own merge commit
+  reverted?: boolean;                   // The live build also contains the PR's revert
+  inProgressDeployment?: DeploymentRun; // Deployment currently running, if any
+  failedDeployment?: DeploymentRun;     // Most recent finished deployment, when it failed
+  error?: AdoErrorInfo;                 // Why the status is 'error'
 }
 
+// Failure class of an ADO call - throttled, server and network failures are retried before surfacing
+export type AdoErrorKind = 'auth' | 'permission' | 'not-found' | 'throttled' | 'server' | 'network' | 'unexpected';
+
+// Which ADO call failed and why
+export interface AdoErrorInfo {
+  kind: AdoErrorKind;
+  call: string;         // e.g. "Merge base check"
+  message: string;
+  status?: number;
+  retryAfter?: number;  // Seconds ADO asked us to wait (throttling)
+  url?: string;
+}
+
+// One pipeline run deploying a build to an environment
+export interface DeploymentRun {
+  buildId: number;
+  buildNumber: string;
+  startTime: string;
+  finishTime?: string;
+  url?: string; // ADO run
+}
+
+// Predicted arrival of a PR in a stage it hasn't reached yet
+export interface DeploymentEta {
+  expected: string;
+  earliest: string;
+  latest: string;
+  confidence: EtaConfidence;
+  basis: 'promotion' | 'cadence'; // Typical delay from the previous stage, or the stage's own deployment rhythm
+}
+
+export type EtaConfidence = 'high' | 'medium' | 'low';
+
+// Aggregate inclusion across the regions of a grouped stage
+export type RegionCoverage = 'all' | 'partial' | 'none';
+
+// Environment status without the environment itself (single environment check)
+export type EnvironmentCheck = Omit<EnvironmentDeploymentStatus, 'environment' | 'coverage' | 'regions'>;
+
 // Full result of checking PR deployment status
 export interface PRDeploymentResult {
   prInfo: PRInfo;
+  train?: TrainDefinition; // Train the PR was checked against (unset for unsupported repositories)
   environments: EnvironmentDeploymentStatus[];
   supportedRepo: boolean;
   unsupportedMessage?: string;
+  apiCalls?: number; // Total ADO calls across all environments, for debugging
+  preMerge?: PreMergeStatus; // Active PRs - review and policy state, and the train a merge right now would catch
+  cherryPicks?: EquivalentChange[]; // Copies of the PR's change on the release branches deployed builds come from
+  revert?: EquivalentChange;        // Commit on the target branch that reverted the PR
+}
+
+// One PR of a batch check - either a result or the error that stopped it
+export interface BatchCheckEntry {
+  prUrl: string;
+  result?: PRDeploymentResult;
+  error?: string;
+}
+
+// =============================================================================
+// PRE-MERGE (active PRs)
+// =============================================================================
+
+// Reviewer vote as ADO reports it (10 / 5 / 0 / -5 / -10)
+export type ReviewerVote = 'approved' | 'approved-with-suggestions' | 'no-vote' | 'waiting-for-author' | 'rejected';
+
+export interface PRReviewer {
+  name: string;
+  vote: ReviewerVote;
+  required: boolean;
+}
+
+// Branch policy evaluation state (build validation, minimum reviewers, linked work items, ...)
+export type PolicyStatus = 'approved' | 'rejected' | 'running' | 'queued' | 'not-applicable' | 'broken';
+
+export interface PRPolicyCheck {
+  name: string;
+  status: PolicyStatus;
+  blocking: boolean;
+  url?: string;     // Validation build, when the policy runs one
+}
+
+// Next build the cut stage takes from the target branch - the train a merge right now would catch
+export interface TrainCut {
+  environment: string;  // Cut stage display name, e.g. Daily
+  expected: string;
+}
+
+export interface PreMergeStatus {
+  isDraft: boolean;
+  mergeStatus?: string;       // ADO test merge: succeeded, conflicts, failure, ...
+  reviewers: PRReviewer[];
+  policies: PRPolicyCheck[];
+  policyError?: AdoErrorInfo; // Policies couldn't be read (the rest of the view still applies)
+  nextCut?: TrainCut;
+}
+
+// =============================================================================
+// DEPLOYMENT HISTORY (environments view)
+// =============================================================================
+
+export type DeploymentResult = 'succeeded' | 'failed' | 'canceled' | 'in-progress' | 'other';
+
+// One deployment of a build to an environment, whatever it carried
+export interface DeploymentHistoryEntry extends DeploymentRun {
+  result: DeploymentResult;
+}
+
+// Recent deployments of one stage (or, for grouped stages, of each region)
+export interface EnvironmentHistory {
+  environment: EnvironmentConfig;
+  deployments: DeploymentHistoryEntry[]; // Newest first
+  regions?: EnvironmentHistory[];
+  error?: AdoErrorInfo;
+}
+
+// =============================================================================
+// ENVIRONMENT COMPARE
+// =============================================================================
+
+// The build an environment currently runs (its latest succeeded deployment)
+export interface EnvironmentBuild extends DeploymentRun {
+  environment: EnvironmentConfig;
+  sourceVersion: string;
+}
+
+// One commit between two environments' builds - PR merges carry the PR id parsed from "Merged PR 123: ..."
+export interface ChangeEntry {
+  commitId: string;
+  comment: string;          // First line of the commit message
+  author: string;
+  authorEmail?: string;
+  date: string;
+  url?: string;
+  pullRequestId?: number;
+  pullRequestUrl?: string;
+  workItemIds: number[];
+}
+
+// A commit carrying (or undoing) a PR's change other than its merge commit - a cherry-pick or a revert
+export interface EquivalentChange extends ChangeEntry {
+  branch: string;           // e.g. refs/heads/releases/2026.01
+}
+
+export interface EnvironmentComparison {
+  train: TrainDefinition;
+  ahead: EnvironmentBuild;  // Environment running the newer build
+  behind: EnvironmentBuild;
+  changes: ChangeEntry[];   // In ahead's build but not behind's, newest first
+  sameBuild: boolean;
+  diverged: boolean;        // Neither build contains the other (e.g. a hotfix branch) - changes are ahead-only
+  truncated: boolean;       // More commits than were listed
+}
+
+// =============================================================================
+// LOOKUPS (commit / work item / build)
+// =============================================================================
+
+// What the user typed into the lookup box
+export type LookupInput =
+  | { kind: 'pr'; prUrl: string }
+  | { kind: 'commit'; commitId: string }
+  | { kind: 'work-item'; workItemId: number }
+  | { kind: 'build'; buildId?: number; buildNumber?: string };
+
+export interface CommitInfo {
+  commitId: string;
+  comment: string;
+  author: {
+    name: string;
+    date: string;
+  };
+  url?: string;
+}
+
+export interface BuildInfo {
+  id: number;
+  buildNumber: string;
+  sourceVersion: string;
+  finishTime?: string;
+  url?: string;
+}
+
+export interface WorkItemInfo {
+  id: number;
+  title: string;
+  type: string;
+  url?: string;
+}
+
+// Commit lookup - same ancestry check as a merged PR
+export interface CommitDeploymentResult {
+  kind: 'commit';
+  commit: CommitInfo;
+  train: TrainDefinition;
+  environments: EnvironmentDeploymentStatus[];
+  apiCalls?: number;
+}
+
+// Build lookup - 'included' means this exact build was deployed to the environment
+export interface BuildDeploymentResult {
+  kind: 'build';
+  build: BuildInfo;
+  train: TrainDefinition;
+  environments: EnvironmentDeploymentStatus[];
+}
+
+// Work item lookup - every linked PR checked as a batch
+export interface WorkItemDeploymentResult {
+  kind: 'work-item';
+  workItem: WorkItemInfo;
+  pullRequests: BatchCheckEntry[];
+}
+
+export type LookupResult = CommitDeploymentResult | BuildDeploymentResult | WorkItemDeploymentResult;
+
+// =============================================================================
+// WATCH LIST
+// =============================================================================
+
+// A PR pinned to the watch list and re-polled in the background
+export interface WatchedPR {
+  prUrl: string;
+  title: string;
+  trainId?: string;
+  addedAt: string;
+  stages: WatchedStage[];  // Last seen status per stage and region
+  lastCheckedAt?: string;
+  nextCheckAt: string;
+  interval: number;        // Current polling interval (ms) - grows while nothing changes
+  lastError?: string;
+  completed?: boolean;     // Every stage includes the PR - polled at the longest interval, for rollbacks
+  sinkIds?: string[];      // Notification sinks this PR's events are posted to
+}
+
+export interface WatchedStage {
+  name: string;
+  group?: string;          // Grouped stage a region belongs to
+  status: InclusionStatus;
+  failedRun?: string;      // Key of the last failed deployment seen, so each failure is reported once
+}
+
+export type WatchEventKind = 'included' | 'failed' | 'rolled-back';
+
+// Timeline entry (and desktop notification) for a watched PR
+export interface WatchEvent {
+  id: string;
+  prUrl: string;
+  prTitle: string;
+  environment: string;
+  kind: WatchEventKind;
+  at: string;
+  buildNumber?: string;
+  url?: string;
+}
+
+// Outgoing channel for watch events (chat webhooks, custom endpoints)
+export type NotificationSinkKind = 'webhook' | 'teams' | 'slack';
+
+export interface NotificationSink {
+  id: string;
+  name: string;
+  kind: NotificationSinkKind;
+  url: string;
+  enabled: boolean;
+}
+
+// =============================================================================
+// CREDENTIALS
+// =============================================================================
+
+// Token used for ADO calls - a PAT (Basic auth) or an Entra ID access token (Bearer)
+export interface Credential {
+  kind: 'pat' | 'entra';
+  token: string;
+  account?: string;
+  expiresOn?: string;
+}
+
+// Where a PAT is kept: this tab only, this browser session, or encrypted with a passphrase
+export type CredentialStorage = 'memory' | 'session' | 'encrypted';
+
+export interface TokenScopeCheck {
+  scope: string;
+  label: string;
+  granted: boolean;
+  optional?: boolean; // Only needed for some lookups (e.g. work items)
+}
+
+// Result of verifying a token against ADO on startup / sign-in
+export interface TokenVerification {
+  valid: boolean;
+  user?: string;
+  expiresOn?: string;
+  scopes: TokenScopeCheck[];
+  error?: string;
+}
+
+// =============================================================================
+// DEPLOYMENT GATE
+// =============================================================================
+
+// Outcome of waiting for a PR or commit to reach an environment (pipelines, scripts)
+export interface GateResult {
+  subject: string;          // PR URL or commit id that was waited for
+  target: string;           // Target environment (display name)
+  reached: boolean;
+  timedOut: boolean;
+  status: InclusionStatus;  // Target status at the last successful poll
+  buildId?: number;         // First build carrying the change, once reached
+  buildNumber?: string;
+  buildUrl?: string;
+  buildTimestamp?: string;
+  polls: number;
+  startedAt: string;
+  finishedAt: string;
+  error?: AdoErrorInfo;     // Last failure while polling, if any
+}
+
+// =============================================================================
+// COLLECTIONS (release dashboard)
+// =============================================================================
+
+// Named set of PRs tracked together - a feature, a team's sprint
+export interface PRCollection {
+  id: string;
+  name: string;
+  prUrls: string[];
+  trainId?: string;         // Train the PRs are checked against (default: the first matching one)
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Merge -> stage lead times of a collection's PRs, from the stages' buildTimestamps
+export interface StageLeadTime {
+  stage: string;
+  displayName: string;
+  reached: number;          // Merged PRs the stage includes
+  merged: number;           // Merged PRs checked against a train with this stage
+  median?: number;          // ms
+  fastest?: number;
+  slowest?: number;
+}
+
+// =============================================================================
+// EXPORTED REPORTS (stable JSON schema for tooling)
+// =============================================================================
+
+export interface DeploymentReport {
+  schema: 'train-tracker/deployment-report';
+  version: 1;
+  generatedAt: string;
+  pullRequests: DeploymentReportPR[];
+}
+
+export interface DeploymentReportPR {
+  id: number;
+  title: string;
+  url: string;
+  repository: string;
+  status: string;           // active / completed / abandoned
+  author: string;
+  mergeCommit?: string;
+  mergedAt?: string;
+  train?: string;           // Train id
+  revertedBy?: string;      // Commit that reverted the PR
+  stages: DeploymentReportStage[];
+}
+
+export interface DeploymentReportStage {
+  name: string;
+  displayName: string;
+  status: InclusionStatus;
+  buildNumber?: string;
+  buildUrl?: string;
+  deployedAt?: string;      // When the first build with the PR landed
+  eta?: string;             // Predicted arrival (stages not reached yet)
+  etaConfidence?: EtaConfidence;
+  viaCherryPick?: string;   // Cherry-pick commit the stage got the change through
+  reverted?: boolean;       // The revert is live here too
+  rolledBackTo?: string;    // 'rolled-back' - build number the stage went back to
+  failedBuildNumber?: string;  // Build of the most recent deployment, when it failed
+  error?: string;
+  regions?: DeploymentReportStage[];
 }
@@ -0,0 +1,59 @@
+// CHERRY-PICK / REVERT MATCHING - Commits that carry or undo a PR's change, recognized from their messages
+// ADO's REST API has no patch ids, so equivalence is judged from what cherry-picks and reverts leave behind:
+// the PR id ("Merged PR 123" kept by a squash cherry-pick), the merge commit SHA (git cherry-pick -x) or the title
+
+import { PRInfo } from '../types';
+
+type PRIdentity = Pick<PRInfo, 'id' | 'title' | 'mergeCommitId'>;
+
+interface CommitMessage {
+  commitId: string;
+  comment: string;
+}
+
+// Shorter titles ("Fix typo") are too common to identify a change
+const MIN_TITLE_LENGTH = 12;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// First line without ADO's "Merged PR 123: " prefix
+function subject(comment: string): string {
+  return comment.split('\n')[0].replace(/^Merged PR \d+:\s*/i, '');
+}
+
+// "[Cherry-pick] Fix x", "Cherry-pick: Fix x", "[releases/2026.01] Fix x" -> "Fix x"
+function stripPickPrefix(title: string): string {
+  return title.replace(/^(?:\[[^\]]*\]\s*|cherry[- ]?pick(?:ed)?(?:\s+of)?\s*:?\s*)+/i, '');
+}
+
+function mentionsPR(comment: string, id: number): boolean {
+  return new RegExp('(?:\\bPR\\s*#?|!|pullrequest/)' + id + '\\b', 'i').test(comment);
+}
+
+function mentionsCommit(comment: string, commitId: string): boolean {
+  const sha = commitId.toLowerCase();
+  return (comment.match(/\b[0-9a-f]{7,40}\b/gi) || []).some(candidate => sha.startsWith(candidate.toLowerCase()));
+}
+
+function matchesTitle(text: string, title: string): boolean {
+  return title.length >= MIN_TITLE_LENGTH && normalize(text).includes(normalize(title));
+}
+
+// Reverts of the PR - ADO names them 'Revert "<title>"'; reverting a revert re-applies the change instead
+export function isRevertOf(commit: CommitMessage, pr: PRIdentity): boolean {
+  const text = subject(commit.comment);
+  if (/^revert\s+"revert\b/i.test(text)) return false;
+  if (!/^revert\b/i.test(text) && !/this reverts commit/i.test(commit.comment)) return false;
+  return mentionsPR(commit.comment, pr.id)
+    || (!!pr.mergeCommitId && mentionsCommit(commit.comment, pr.mergeCommitId))
+    || matchesTitle(text, pr.title);
+}
+
+// Copies of the PR's change other than its merge commit (run against release branches)
+export function isCherryPickOf(commit: CommitMessage, pr: PRIdentity): boolean {
+  if (!pr.mergeCommitId || commit.commitId.toLowerCase() === pr.mergeCommitId.toLowerCase()) return false;
+  if (isRevertOf(commit, pr)) return false;
+  return mentionsPR(commit.comment, pr.id)
+    || mentionsCommit(commit.comment, pr.mergeCommitId)
+    || (pr.title.length >= MIN_TITLE_LENGTH && normalize(stripPickPrefix(subject(commit.comment))) === normalize(pr.title));
+}
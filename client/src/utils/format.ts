@@ -0,0 +1,32 @@
+// DATE FORMATTING - Compact dates and durations for the pipeline and stage details
+
+import { DeploymentEta } from '../types';
+
+// "Oct 21"
+export function formatShortDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+// "Oct 21, 10:30 AM"
+export function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+// Tooltip text for a predicted arrival
+export function describeEta(eta: DeploymentEta): string {
+  const range = formatShortDate(eta.earliest) === formatShortDate(eta.latest)
+    ? formatShortDate(eta.earliest)
+    : formatShortDate(eta.earliest) + ' – ' + formatShortDate(eta.latest);
+  const basis = eta.basis === 'promotion' ? 'typical promotion from the previous stage' : "this stage's deployment cadence";
+  return 'Expected ' + formatDateTime(eta.expected) + ' (range ' + range + ', ' + eta.confidence + ' confidence, based on ' + basis + ')';
+}
+
+// "2d 4h", "5h 12m", "14m"
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  if (days > 0) return days + 'd ' + (hours % 24) + 'h';
+  if (hours > 0) return hours + 'h ' + (minutes % 60) + 'm';
+  return minutes + 'm';
+}
@@ -0,0 +1,40 @@
+// DEPLOYMENT HISTORY STATS - Is a stage rolling normally, failing, or stuck?
+
+import { DeploymentHistoryEntry } from '../types';
+import { median } from './stats';
+
+// A run taking this many times the usual duration is flagged as possibly stuck
+const STUCK_FACTOR = 3;
+const MIN_STUCK_MS = 60 * 60 * 1000;
+
+export type StageHealth = 'rolling' | 'failing' | 'stuck' | 'idle';
+
+export interface HistorySummary {
+  health: StageHealth;
+  medianDuration?: number;
+  lastSuccess?: DeploymentHistoryEntry;
+  failures: number;
+}
+
+export function deploymentDuration(run: DeploymentHistoryEntry, now: number = Date.now()): number {
+  return (run.finishTime ? new Date(run.finishTime).getTime() : now) - new Date(run.startTime).getTime();
+}
+
+// deployments are newest first
+export function summarizeHistory(deployments: DeploymentHistoryEntry[], now: number = Date.now()): HistorySummary {
+  const succeeded = deployments.filter(d => d.result === 'succeeded');
+  const durations = succeeded.map(d => deploymentDuration(d)).sort((a, b) => a - b);
+  const medianDuration = durations.length > 0 ? median(durations) : undefined;
+  const failures = deployments.filter(d => d.result === 'failed').length;
+
+  const running = deployments.find(d => d.result === 'in-progress');
+  const lastFinished = deployments.find(d => d.result !== 'in-progress');
+  const stuckAfter = Math.max(MIN_STUCK_MS, (medianDuration || 0) * STUCK_FACTOR);
+
+  let health: StageHealth = 'rolling';
+  if (deployments.length === 0) health = 'idle';
+  else if (running && deploymentDuration(running, now) > stuckAfter) health = 'stuck';
+  else if (lastFinished?.result === 'failed') health = 'failing';
+
+  return { health, medianDuration, lastSuccess: succeeded[0], failures };
+}
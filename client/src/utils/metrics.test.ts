@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { countFullyDeployed, stageLeadTimes } from './metrics';
+import { EnvironmentDeploymentStatus, InclusionStatus, PRDeploymentResult } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+const MERGED_AT = '2026-01-05T10:00:00.000Z';
+
+const hoursAfterMerge = (hours: number) => new Date(new Date(MERGED_AT).getTime() + hours * HOUR).toISOString();
+
+function stage(name: string, status: InclusionStatus, landedAfterHours?: number): EnvironmentDeploymentStatus {
+  return {
+    environment: { id: 1, name, displayName: name + ' ring', order: 1 },
+    status,
+    buildTimestamp: landedAfterHours !== undefined ? hoursAfterMerge(landedAfterHours) : undefined,
+  };
+}
+
+function result(id: number, environments: EnvironmentDeploymentStatus[], merged = true): PRDeploymentResult {
+  return {
+    prInfo: {
+      id,
+      title: 'PR ' + id,
+      status: merged ? 'completed' : 'active',
+      sourceRefName: 'refs/heads/feature/' + id,
+      targetRefName: 'refs/heads/main',
+      repository: { id: 'repo-id', name: 'repo' },
+      createdBy: { displayName: 'Author' },
+      creationDate: '2026-01-01T00:00:00.000Z',
+      closedDate: merged ? MERGED_AT : undefined,
+      mergeCommitId: merged ? 'c'.repeat(40) : undefined,
+      url: 'https://dev.azure.com/org/project/_git/repo/pullrequest/' + id,
+    },
+    environments,
+    supportedRepo: true,
+  };
+}
+
+describe('stageLeadTimes', () => {
+  it('reports progress and lead times per stage in ladder order', () => {
+    const leadTimes = stageLeadTimes([
+      result(1, [stage('Daily', 'included', 1), stage('PROD', 'included', 30)]),
+      result(2, [stage('Daily', 'included', 3), stage('PROD', 'not-included')]),
+      result(3, [stage('Daily', 'included', 8), stage('PROD', 'rolled-back', 20)]),
+    ]);
+
+    expect(leadTimes).toEqual([
+      { stage: 'Daily', displayName: 'Daily ring', reached: 3, merged: 3, median: 3 * HOUR, fastest: HOUR, slowest: 8 * HOUR },
+      { stage: 'PROD', displayName: 'PROD ring', reached: 1, merged: 3, median: 30 * HOUR, fastest: 30 * HOUR, slowest: 30 * HOUR },
+    ]);
+  });
+
+  it('averages the two middle lead times for an even count', () => {
+    const [daily] = stageLeadTimes([
+      result(1, [stage('Daily', 'included', 1)]),
+      result(2, [stage('Daily', 'included', 3)]),
+    ]);
+
+    expect(daily.median).toBe(2 * HOUR);
+  });
+
+  it('leaves out PRs that are not merged and stages nobody reached', () => {
+    const leadTimes = stageLeadTimes([
+      result(1, [stage('Daily', 'not-included')]),
+      result(2, [stage('Daily', 'included', 1)], false),
+    ]);
+
+    expect(leadTimes).toEqual([
+      { stage: 'Daily', displayName: 'Daily ring', reached: 0, merged: 1, median: undefined, fastest: undefined, slowest: undefined },
+    ]);
+  });
+});
+
+describe('countFullyDeployed', () => {
+  it('counts PRs every stage includes', () => {
+    expect(countFullyDeployed([
+      result(1, [stage('Daily', 'included', 1), stage('PROD', 'included', 30)]),
+      result(2, [stage('Daily', 'included', 1), stage('PROD', 'partially-deployed')]),
+      result(3, [stage('Daily', 'included', 1), stage('PROD', 'rolled-back')]),
+      result(4, []),
+    ])).toBe(1);
+  });
+});
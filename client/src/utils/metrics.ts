@@ -0,0 +1,40 @@
+// COLLECTION METRICS - Progress and merge -> stage lead times across a set of checked PRs
+
+import { PRDeploymentResult, StageLeadTime } from '../types';
+import { median } from './stats';
+
+// Lead time per stage, in ladder order - from each PR's merge to the first build with it landing in the stage
+export function stageLeadTimes(results: PRDeploymentResult[]): StageLeadTime[] {
+  const merged = results.filter(r => r.prInfo.closedDate && r.prInfo.mergeCommitId && r.supportedRepo);
+  const stages = new Map<string, { displayName: string; merged: number; durations: number[] }>();
+
+  for (const result of merged) {
+    const mergedAt = new Date(result.prInfo.closedDate!).getTime();
+    for (const env of result.environments) {
+      const stage = stages.get(env.environment.name) || { displayName: env.environment.displayName, merged: 0, durations: [] };
+      stage.merged++;
+      if (env.status === 'included' && env.buildTimestamp) {
+        stage.durations.push(Math.max(0, new Date(env.buildTimestamp).getTime() - mergedAt));
+      }
+      stages.set(env.environment.name, stage);
+    }
+  }
+
+  return Array.from(stages.entries()).map(([name, stage]) => {
+    const sorted = [...stage.durations].sort((a, b) => a - b);
+    return {
+      stage: name,
+      displayName: stage.displayName,
+      reached: sorted.length,
+      merged: stage.merged,
+      median: sorted.length > 0 ? median(sorted) : undefined,
+      fastest: sorted[0],
+      slowest: sorted[sorted.length - 1],
+    };
+  });
+}
+
+// PRs every stage of their train includes
+export function countFullyDeployed(results: PRDeploymentResult[]): number {
+  return results.filter(r => r.environments.length > 0 && r.environments.every(e => e.status === 'included')).length;
+}
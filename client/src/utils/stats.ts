@@ -0,0 +1,13 @@
+// STATS - Percentiles over durations and intervals (ETA prediction, collection metrics, deployment history)
+
+// Linear interpolation between the closest ranks - `sorted` ascending and non-empty
+export function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+export function median(sorted: number[]): number {
+  return percentile(sorted, 0.5);
+}
@@ -0,0 +1,34 @@
+// STATUS PRESENTATION - Shared by the pipeline and the batch matrix
+
+import { AdoErrorInfo, InclusionStatus } from '../types';
+
+export function getStatusColor(status: InclusionStatus): string {
+  switch (status) {
+    case 'included': return 'status-included';
+    case 'partially-deployed': return 'status-partially-deployed';
+    case 'rolled-back': return 'status-rolled-back';
+    case 'not-included': return 'status-not-included';
+    case 'in-progress': return 'status-in-progress';
+    case 'no-builds': return 'status-no-builds';
+    case 'error': return 'status-error';
+    default: return '';
+  }
+}
+
+// "Merge base check: Access denied - ... (HTTP 403)"
+export function describeError(error: AdoErrorInfo): string {
+  return error.call + ': ' + error.message + (error.status ? ' (HTTP ' + error.status + ')' : '');
+}
+
+export function getStatusIcon(status: InclusionStatus): string {
+  switch (status) {
+    case 'included': return '✓';
+    case 'partially-deployed': return '◑';
+    case 'rolled-back': return '↩';
+    case 'not-included': return '○';
+    case 'in-progress': return '◐';
+    case 'no-builds': return '?';
+    case 'error': return '✗';
+    default: return '';
+  }
+}
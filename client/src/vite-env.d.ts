@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_ENTRA_CLIENT_ID?: string;
+  readonly VITE_ENTRA_TENANT_ID?: string;
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Node build of the command-line tool - bundles the core, leaves node: built-ins external
+export default defineConfig({
+  publicDir: false,   // train.svg and trains.json belong to the web app
+  build: {
+    ssr: 'src/cli/index.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'train-tracker.mjs',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})